@@ -1,41 +1,120 @@
 // MercadoPagoService.ts
-import { MercadoPagoBuilder } from './builders/MercadoPagoBuilder';
-import { PaymentValidator } from './validators/PaymentValidator';
-import { PaymentRequest, PaymentResponse, PaymentResult, MercadoPagoConfig } from './types';
-
-// Tipo para el callback de guardado
-type SaveOrderCallback = (orderData: {
-  id: string;
-  customer: string;
-  items_count: number;
-  total_amount: number;
-  preference_id: string;
-  full_order: any;
-}) => Promise<void> | void;
+import { MercadoPagoBuilder } from './builders/MercadoPagoBuilder.js';
+import { PaymentValidator } from './validators/PaymentValidator.js';
+import { MercadoPagoApiClient } from './api/MercadoPagoApiClient.js';
+import { MercadoPagoApiError, PaymentLibError, ValidationError } from './errors/PaymentErrors.js';
+import { PaymentMapper } from './mappers/PaymentMapper.js';
+import { HttpPolicy, resolveHttpPolicyOptions } from './http/HttpPolicy.js';
+import { TotalsCalculator } from './pricing/TotalsCalculator.js';
+import { MercadoPagoSubscriptionService } from './subscriptions/MercadoPagoSubscriptionService.js';
+import {
+  PaymentRequest,
+  PaymentResponse,
+  PaymentResult,
+  MercadoPagoConfig,
+  SaveOrderCallback,
+  RefundOptions,
+  RefundResult,
+  RefundResponse,
+  RefundListResponse,
+  Currency,
+  PaymentFilters,
+  PaymentListResponse,
+  PaymentResultWeebhook,
+  PaymentIntent,
+  CreatePaymentOptions,
+  PaymentResponseWeebhook,
+  PaymentError,
+  IdempotencyStore,
+  OrderRepository,
+  ValidationOptions,
+  ValidationRule,
+  OrderStatus,
+  Logger,
+  Discount,
+  TotalsBreakdown,
+  MarketplaceSeller,
+  ProcessPaymentOptions,
+  PaymentOperationOptions,
+} from './types/index.js';
+import { OrderStateMachine } from './orders/OrderStateMachine.js';
+import { errorFields, resolveLogger } from './logging/Logger.js';
+import { InMemoryIdempotencyStore } from './stores/InMemoryIdempotencyStore.js';
+import { DEFAULT_CURRENCY, fromMinorUnits, isSupportedCurrency, roundAmount, toMinorUnits } from './utils/currency.js';
+
+const DEFAULT_SEARCH_LIMIT = 30;
+const DEFAULT_IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000;
 
 export class MercadoPagoService {
-  private builder: MercadoPagoBuilder;
+  private config: MercadoPagoConfig;
+  private logger: Logger;
+  private apiClient: MercadoPagoApiClient;
   private saveOrderCallback: SaveOrderCallback | null = null;
+  private orderRepository: OrderRepository | null;
+  private idempotencyStore: IdempotencyStore;
+  private inFlightPayments = new Map<string, Promise<PaymentResponse>>();
+  private validationOptions: ValidationOptions;
+  // Planes y suscripciones (preapproval), con la misma HttpPolicy que los pagos
+  readonly subscriptions: MercadoPagoSubscriptionService;
 
   constructor(config: MercadoPagoConfig) {
-    this.builder = new MercadoPagoBuilder(config);
+    this.config = config;
+    this.logger = resolveLogger(config.logger);
+    this.validationOptions = { ...config.validation, rules: [...(config.validation?.rules || [])] };
+    this.orderRepository = config.orderRepository || null;
+    this.idempotencyStore = config.idempotencyStore || new InMemoryIdempotencyStore();
+    // Una sola política para builder y API client: el circuit breaker ve todas las llamadas
+    this.apiClient = new MercadoPagoApiClient({
+      accessToken: config.accessToken,
+      timeout: config.timeout,
+      policy: new HttpPolicy(resolveHttpPolicyOptions(config), this.logger),
+    });
+    this.subscriptions = new MercadoPagoSubscriptionService(config, this.apiClient);
+  }
+
+  // Método para establecer el repositorio de órdenes desde el código cliente
+  setOrderRepository(repository: OrderRepository): this {
+    this.orderRepository = repository;
+    return this;
   }
 
-  // Método para establecer el callback de guardado desde el código cliente
+  // Registra una regla del comercio (p. ej. ValidationRules.maxCartTotal) que se aplica en processPayment
+  addValidationRule(rule: ValidationRule): this {
+    this.validationOptions.rules!.push(rule);
+    return this;
+  }
+
+  /**
+   * Método para establecer el callback de guardado desde el código cliente
+   * @deprecated Usar setOrderRepository
+   */
   setSaveOrderCallback(callback: SaveOrderCallback): this {
     this.saveOrderCallback = callback;
     return this;
   }
 
-  async processPayment(requestData: any): Promise<PaymentResult> {
+  /**
+   * `options.locale` elige el idioma de los errores de validación para esta llamada.
+   * `options.seller` crea la preferencia con el token de un vendedor conectado (marketplace).
+   */
+  async processPayment(requestData: any, options: ProcessPaymentOptions = {}): Promise<PaymentResult> {
+    const { seller, ...localeOptions } = options;
+    const validationOptions = { ...this.validationOptions, ...localeOptions };
+
     try {
       // Validate input data
-      const validation = PaymentValidator.validatePaymentRequest(requestData);
+      const validation = PaymentValidator.validatePaymentRequest(
+        requestData,
+        this.config.currency,
+        validationOptions,
+        this.config.preference
+      );
       if (!validation.isValid) {
         return {
           success: false,
           error: 'Datos inválidos',
           details: validation.errors,
+          error_info: ValidationError.fromResult(validation),
         };
       }
 
@@ -43,7 +122,9 @@ export class MercadoPagoService {
       const paymentRequest: PaymentRequest = requestData as PaymentRequest;
 
       // Process payment using MercadoPago
-      const result = await this.executeMercadoPagoPayment(paymentRequest);
+      const result = paymentRequest.idempotency_key
+        ? await this.executeIdempotentPayment(paymentRequest, paymentRequest.idempotency_key, validationOptions, seller)
+        : await this.executeMercadoPagoPayment(paymentRequest, validationOptions, seller);
 
       return {
         success: true,
@@ -51,36 +132,99 @@ export class MercadoPagoService {
       };
 
     } catch (error) {
-      console.error('Payment processing error:', error);
+      this.logger.error('Payment processing error', errorFields(error));
 
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Error interno del servidor',
+        details: error instanceof ValidationError ? error.details : undefined,
+        error_info: error instanceof PaymentLibError
+          ? error
+          : new PaymentLibError('Error interno del servidor', { code: 'internal_error', status: 500, cause: error }),
       };
     }
   }
 
-  private async executeMercadoPagoPayment(request: PaymentRequest): Promise<PaymentResponse> {
+  /**
+   * Devuelve la respuesta original si la idempotency_key ya fue procesada
+   * o está en curso (doble clic, reintentos de la ruta).
+   */
+  private async executeIdempotentPayment(
+    request: PaymentRequest,
+    key: string,
+    validationOptions: ValidationOptions,
+    seller?: MarketplaceSeller
+  ): Promise<PaymentResponse> {
+    const stored = await this.idempotencyStore.get(key);
+    if (stored) {
+      return stored;
+    }
+
+    const inFlight = this.inFlightPayments.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const execution = this.executeMercadoPagoPayment(request, validationOptions, seller)
+      .then(async response => {
+        await this.idempotencyStore.set(key, response, this.config.idempotencyTtl ?? DEFAULT_IDEMPOTENCY_TTL);
+        return response;
+      })
+      .finally(() => {
+        this.inFlightPayments.delete(key);
+      });
+
+    this.inFlightPayments.set(key, execution);
+    return execution;
+  }
+
+  private async executeMercadoPagoPayment(
+    request: PaymentRequest,
+    validationOptions: ValidationOptions,
+    seller?: MarketplaceSeller
+  ): Promise<PaymentResponse> {
     try {
-      // Reset builder for new payment
-      this.builder.reset();
+      // Cupón y totales se resuelven aquí para que un reintento idempotente devuelva la respuesta guardada
+      const totals = await this.calculateTotals(request, validationOptions);
 
-      // Set the save callback if it exists
-      if (this.saveOrderCallback) {
-        this.builder.setSaveOrderCallback(this.saveOrderCallback);
+      // La comisión del marketplace solo se puede validar contra el total ya calculado
+      if (seller) {
+        const sellerValidation = PaymentValidator.validateMarketplaceSeller(
+          seller,
+          { total: totals.total, currency: totals.currency },
+          validationOptions
+        );
+        if (!sellerValidation.isValid) {
+          throw ValidationError.fromResult(sellerValidation);
+        }
+      }
+
+      // Un builder por pago: las llamadas concurrentes no comparten request, totales ni vendedor
+      const builder = new MercadoPagoBuilder(this.config, this.apiClient);
+
+      // Set the order repository or the save callback if they exist
+      if (this.orderRepository) {
+        builder.setOrderRepository(this.orderRepository);
+      } else if (this.saveOrderCallback) {
+        builder.setSaveOrderCallback(this.saveOrderCallback);
+      }
+
+      if (seller) {
+        builder.setSeller(seller);
       }
 
       // Execute the payment process step by step
-      await this.builder
+      await builder
         .setPaymentRequest(request)
+        .setTotals(totals)
         .buildPreference()
         .createPreference();
 
       // Save order to database (now uses callback)
-      await this.builder.saveOrder();
+      await builder.saveOrder();
 
       // Get the final result
-      const { order, payment_url } = this.builder.getResult();
+      const { order, payment_url } = builder.getResult();
       return {
         order_id: order.id,
         payment_url: payment_url, // Ahora usa init_point
@@ -89,8 +233,539 @@ export class MercadoPagoService {
       };
 
     } catch (error) {
-      console.error('Error processing MercadoPago payment:', error);
+      this.logger.error('Error processing MercadoPago payment', errorFields(error));
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Resuelve el cupón con config.couponResolver y calcula el desglose del carrito.
+   * Lanza ValidationError si el cupón no aplica, el total queda en 0 o falla una regla del comercio.
+   */
+  private async calculateTotals(request: PaymentRequest, validationOptions: ValidationOptions): Promise<TotalsBreakdown> {
+    const currency = request.currency || this.config.currency || DEFAULT_CURRENCY;
+
+    let coupon: Discount | null = null;
+    if (request.coupon_code) {
+      coupon = await this.resolveCoupon(request, currency);
+      const couponValidation = PaymentValidator.validateCoupon(request.coupon_code, coupon, currency, validationOptions);
+      if (!couponValidation.isValid) {
+        throw ValidationError.fromResult(couponValidation);
+      }
+    }
+
+    const totals = TotalsCalculator.calculate(request, { currency, tax: this.config.tax, coupon });
+    // Las reglas del comercio (p. ej. maxCartTotal) ven el total con cupón, impuestos y envío
+    const totalsValidation = PaymentValidator.validateTotals(totals, validationOptions, request);
+    if (!totalsValidation.isValid) {
+      throw ValidationError.fromResult(totalsValidation);
+    }
+    return totals;
+  }
+
+  private async resolveCoupon(request: PaymentRequest, currency: Currency): Promise<Discount | null> {
+    const code = request.coupon_code!;
+    if (!this.config.couponResolver) {
+      this.logger.warn('coupon_code received but no couponResolver is configured', { coupon_code: code });
+      return null;
+    }
+
+    const discount = await this.config.couponResolver(code, { request, currency });
+    return discount ? { ...discount, code: discount.code || code } : null;
+  }
+
+  /**
+   * Crea un pago directo con tarjeta tokenizada (Checkout API), sin redirigir a init_point.
+   * El `id` del intent se envía como X-Idempotency-Key.
+   * Con `options.seller` el pago se crea con el token del vendedor y el marketplace cobra application_fee.
+   */
+  async createPayment(intent: PaymentIntent, options: CreatePaymentOptions = {}): Promise<PaymentResponseWeebhook> {
+    const validation = PaymentValidator.validatePaymentIntent(intent, this.validationOptions);
+    if (!validation.isValid) {
+      return {
+        success: false,
+        error: ValidationError.fromResult(validation),
+      };
+    }
+
+    if (options.seller) {
+      const sellerValidation = PaymentValidator.validateMarketplaceSeller(
+        options.seller,
+        { total: intent.amount, currency: intent.currency as Currency },
+        this.validationOptions
+      );
+      if (!sellerValidation.isValid) {
+        return {
+          success: false,
+          error: ValidationError.fromResult(sellerValidation),
+        };
+      }
+    }
+
+    try {
+      const response = await this.clientFor(options.seller).createPayment(this.buildPaymentBody(intent, options), intent.id);
+
+      if (!response?.id) {
+        throw new Error('Failed to create MercadoPago payment - missing ID');
+      }
+
+      return {
+        success: true,
+        data: PaymentMapper.toPaymentResult(response),
+      };
+    } catch (error) {
+      this.logger.error('Error creating MercadoPago payment', { intent_id: intent.id, ...errorFields(error) });
+      return {
+        success: false,
+        error: MercadoPagoApiError.fromSdkError(error, 'payment_creation_failed', 'Error al crear el pago en MercadoPago'),
+      };
+    }
+  }
+
+  /**
+   * Reserva fondos sin cobrarlos (capture: false). El cobro se confirma luego
+   * con capturePayment o se libera con cancelAuthorization.
+   */
+  async authorizePayment(intent: PaymentIntent, options: CreatePaymentOptions = {}): Promise<PaymentResponseWeebhook> {
+    return this.createPayment(intent, { ...options, capture: false });
+  }
+
+  /**
+   * Captura un pago autorizado, total o parcialmente.
+   * Sin `amount` se captura el monto autorizado completo.
+   * Los pagos creados con `seller` se capturan, cancelan y reembolsan pasando el mismo `seller`.
+   */
+  async capturePayment(
+    paymentId: string,
+    amount?: number,
+    options: PaymentOperationOptions = {}
+  ): Promise<PaymentResponseWeebhook> {
+    const authorization = await this.getAuthorizedPayment(paymentId, options.seller);
+    if ('error' in authorization) {
+      return { success: false, error: authorization.error };
+    }
+
+    const { payment, currency } = authorization;
+    if (amount !== undefined) {
+      const validation = PaymentValidator.validateCaptureAmount(
+        amount,
+        payment.transaction_amount,
+        currency,
+        this.validationOptions
+      );
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: ValidationError.fromResult(validation),
+        };
+      }
+    }
+
+    try {
+      const response = await this.clientFor(options.seller).capturePayment(paymentId, amount);
+      return {
+        success: true,
+        data: PaymentMapper.toPaymentResult(response),
+      };
+    } catch (error) {
+      this.logger.error('Error capturing MercadoPago payment', { payment_id: paymentId, ...errorFields(error) });
+      return {
+        success: false,
+        error: MercadoPagoApiError.fromSdkError(error, 'capture_failed', 'Error al capturar el pago en MercadoPago'),
+      };
+    }
+  }
+
+  /**
+   * Cancela una autorización y libera los fondos reservados
+   */
+  async cancelAuthorization(paymentId: string, options: PaymentOperationOptions = {}): Promise<PaymentResponseWeebhook> {
+    const authorization = await this.getAuthorizedPayment(paymentId, options.seller);
+    if ('error' in authorization) {
+      return { success: false, error: authorization.error };
+    }
+
+    try {
+      const response = await this.clientFor(options.seller).cancelPayment(paymentId);
+      return {
+        success: true,
+        data: PaymentMapper.toPaymentResult(response),
+      };
+    } catch (error) {
+      this.logger.error('Error cancelling MercadoPago authorization', { payment_id: paymentId, ...errorFields(error) });
+      return {
+        success: false,
+        error: MercadoPagoApiError.fromSdkError(error, 'cancel_failed', 'Error al cancelar la autorización en MercadoPago'),
+      };
+    }
+  }
+
+  /**
+   * Reembolsa un pago aprobado, total o parcialmente.
+   * Sin `amount` se reembolsa el saldo restante del pago.
+   */
+  async refundPayment(paymentId: string, options: RefundOptions = {}): Promise<RefundResponse> {
+    if (!paymentId) {
+      return {
+        success: false,
+        error: this.missingPaymentIdError(),
+      };
+    }
+
+    const sellerError = this.validateSeller(options.seller);
+    if (sellerError) {
+      return {
+        success: false,
+        error: sellerError,
+      };
+    }
+
+    const client = this.clientFor(options.seller);
+    let payment: any;
+    try {
+      payment = await client.getPayment(paymentId);
+    } catch (error) {
+      this.logger.error('Error fetching payment for refund', { payment_id: paymentId, ...errorFields(error) });
+      return {
+        success: false,
+        error: MercadoPagoApiError.fromSdkError(error, 'payment_not_found', 'No se pudo obtener el pago a reembolsar'),
+      };
+    }
+
+    if (payment?.status !== 'approved') {
+      return {
+        success: false,
+        error: new PaymentLibError(
+          `El pago ${paymentId} no se puede reembolsar en estado ${payment?.status || 'desconocido'}`,
+          { code: 'payment_not_refundable', status: 409 }
+        ),
+      };
+    }
+
+    const currency: Currency = isSupportedCurrency(payment.currency_id) ? payment.currency_id : DEFAULT_CURRENCY;
+    const totalMinor = toMinorUnits(payment.transaction_amount || 0, currency);
+    const refundedMinor = toMinorUnits(payment.transaction_amount_refunded || 0, currency);
+    const remainingAmount = fromMinorUnits(totalMinor - refundedMinor, currency);
+
+    if (options.amount !== undefined) {
+      const validation = PaymentValidator.validateRefundAmount(
+        options.amount,
+        remainingAmount,
+        currency,
+        this.validationOptions
+      );
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: ValidationError.fromResult(validation),
+        };
+      }
+    }
+
+    try {
+      const response = await client.refundPayment(paymentId, options.amount);
+      const refundAmount = response.amount ?? options.amount ?? remainingAmount;
+      const totalRefundedMinor = refundedMinor + toMinorUnits(refundAmount, currency);
+
+      const refund: RefundResult = {
+        ...this.mapRefund(response, paymentId),
+        total_refunded: fromMinorUnits(totalRefundedMinor, currency),
+        remaining_amount: fromMinorUnits(Math.max(totalMinor - totalRefundedMinor, 0), currency),
+      };
+
+      await this.notifyRefund(payment, refund, totalRefundedMinor >= totalMinor);
+
+      return {
+        success: true,
+        data: refund,
+      };
+    } catch (error) {
+      this.logger.error('Error refunding MercadoPago payment', { payment_id: paymentId, ...errorFields(error) });
+      return {
+        success: false,
+        error: MercadoPagoApiError.fromSdkError(error, 'refund_failed', 'Error al reembolsar el pago en MercadoPago'),
+      };
+    }
+  }
+
+  /**
+   * Lista los reembolsos registrados para un pago
+   */
+  async listRefunds(paymentId: string, options: PaymentOperationOptions = {}): Promise<RefundListResponse> {
+    if (!paymentId) {
+      return {
+        success: false,
+        error: this.missingPaymentIdError(),
+      };
+    }
+
+    const sellerError = this.validateSeller(options.seller);
+    if (sellerError) {
+      return {
+        success: false,
+        error: sellerError,
+      };
+    }
+
+    try {
+      const client = this.clientFor(options.seller);
+      const [payment, refunds] = await Promise.all([
+        client.getPayment(paymentId),
+        client.listRefunds(paymentId),
+      ]);
+
+      const currency: Currency = isSupportedCurrency(payment?.currency_id) ? payment.currency_id : DEFAULT_CURRENCY;
+      const totalMinor = toMinorUnits(payment?.transaction_amount || 0, currency);
+      let refundedMinor = 0;
+
+      // Los acumulados se calculan en orden cronológico
+      const sorted = [...refunds].sort((a, b) => (a.date_created || '').localeCompare(b.date_created || ''));
+      const data: RefundResult[] = sorted.map(response => {
+        refundedMinor += toMinorUnits(response.amount || 0, currency);
+        return {
+          ...this.mapRefund(response, paymentId),
+          total_refunded: fromMinorUnits(refundedMinor, currency),
+          remaining_amount: fromMinorUnits(Math.max(totalMinor - refundedMinor, 0), currency),
+        };
+      });
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      this.logger.error('Error listing MercadoPago refunds', { payment_id: paymentId, ...errorFields(error) });
+      return {
+        success: false,
+        error: MercadoPagoApiError.fromSdkError(error, 'refund_list_failed', 'Error al obtener los reembolsos del pago'),
+      };
+    }
+  }
+
+  /**
+   * Busca pagos por estado, external_reference o rango de fechas
+   */
+  async searchPayments(filters: PaymentFilters = {}): Promise<PaymentListResponse> {
+    const validation = PaymentValidator.validatePaymentFilters(filters, this.validationOptions);
+    if (!validation.isValid) {
+      return {
+        success: false,
+        error: ValidationError.fromResult(validation, 'Filtros inválidos'),
+      };
+    }
+
+    const limit = filters.limit ?? DEFAULT_SEARCH_LIMIT;
+    const offset = filters.offset ?? 0;
+
+    try {
+      const response = await this.apiClient.searchPayments(this.buildSearchOptions(filters, limit, offset));
+      const results: any[] = response?.results || [];
+
+      return {
+        success: true,
+        data: results.map(payment => PaymentMapper.toPaymentResult(payment)),
+        pagination: {
+          total: response?.paging?.total ?? results.length,
+          limit: response?.paging?.limit ?? limit,
+          offset: response?.paging?.offset ?? offset,
+        },
+      };
+    } catch (error) {
+      this.logger.error('Error searching MercadoPago payments', errorFields(error));
+      return {
+        success: false,
+        error: MercadoPagoApiError.fromSdkError(error, 'payment_search_failed', 'Error al buscar pagos en MercadoPago'),
+      };
+    }
+  }
+
+  /**
+   * Recorre todas las páginas de una búsqueda de pagos.
+   * `limit` define el tamaño de cada página y `offset` el punto de partida.
+   */
+  async *iteratePayments(filters: PaymentFilters = {}): AsyncGenerator<PaymentResultWeebhook, void, undefined> {
+    let offset = filters.offset ?? 0;
+
+    while (true) {
+      const page = await this.searchPayments({ ...filters, offset });
+      if (!page.success) {
+        throw new Error(page.error?.message || 'Error al buscar pagos en MercadoPago');
+      }
+
+      const payments = page.data || [];
+      yield* payments;
+
+      offset += payments.length;
+      if (payments.length === 0 || offset >= (page.pagination?.total ?? 0)) {
+        return;
+      }
+    }
+  }
+
+  private missingPaymentIdError(): ValidationError {
+    return ValidationError.fromResult(PaymentValidator.validatePaymentId(undefined, this.validationOptions));
+  }
+
+  // Los pagos de marketplace se operan con el token del vendedor que los creó
+  private clientFor(seller?: MarketplaceSeller): MercadoPagoApiClient {
+    return seller ? this.apiClient.withAccessToken(seller.access_token) : this.apiClient;
+  }
+
+  private validateSeller(seller?: MarketplaceSeller): ValidationError | null {
+    if (!seller) {
+      return null;
+    }
+    const validation = PaymentValidator.validateMarketplaceSeller(seller, null, this.validationOptions);
+    return validation.isValid ? null : ValidationError.fromResult(validation);
+  }
+
+  private async getAuthorizedPayment(
+    paymentId: string,
+    seller?: MarketplaceSeller
+  ): Promise<{ payment: any; currency: Currency } | { error: PaymentError }> {
+    if (!paymentId) {
+      return { error: this.missingPaymentIdError() };
+    }
+
+    const sellerError = this.validateSeller(seller);
+    if (sellerError) {
+      return { error: sellerError };
+    }
+
+    let payment: any;
+    try {
+      payment = await this.clientFor(seller).getPayment(paymentId);
+    } catch (error) {
+      this.logger.error('Error fetching authorized payment', { payment_id: paymentId, ...errorFields(error) });
+      return { error: MercadoPagoApiError.fromSdkError(error, 'payment_not_found', 'No se pudo obtener el pago autorizado') };
+    }
+
+    if (payment?.status !== 'authorized') {
+      return {
+        error: new PaymentLibError(
+          `El pago ${paymentId} no está autorizado (estado ${payment?.status || 'desconocido'})`,
+          { code: 'payment_not_authorized', status: 409 }
+        ),
+      };
+    }
+
+    const currency: Currency = isSupportedCurrency(payment.currency_id) ? payment.currency_id : DEFAULT_CURRENCY;
+    return { payment, currency };
+  }
+
+  private buildPaymentBody(intent: PaymentIntent, options: CreatePaymentOptions): Record<string, any> {
+    const { payer } = intent;
+    const [firstName, ...lastNames] = (payer?.name || '').trim().split(/\s+/);
+    const { seller } = options;
+
+    return {
+      transaction_amount: roundAmount(intent.amount, intent.currency as Currency),
+      token: intent.token,
+      description: intent.description,
+      installments: intent.installments ?? 1,
+      payment_method_id: intent.payment_method_id,
+      issuer_id: intent.issuer_id ? Number(intent.issuer_id) : undefined,
+      external_reference: intent.external_reference,
+      metadata: intent.metadata,
+      capture: options.capture ?? intent.capture ?? true,
+      binary_mode: options.binary_mode ?? intent.binary_mode ?? false,
+      statement_descriptor: options.statement_descriptor ?? intent.statement_descriptor,
+      notification_url: options.notification_url ?? intent.notification_url ?? this.config.WEBHOOK_URL,
+      callback_url: options.callback_url ?? intent.redirect_urls?.success,
+      application_fee: seller ? this.resolveApplicationFee(seller, intent) : undefined,
+      sponsor_id: options.sponsor_id ?? (seller ? this.config.marketplace?.sponsor_id : undefined),
+      processing_mode: options.processing_mode,
+      merchant_account_id: options.merchant_account_id,
+      payer: {
+        email: payer?.email,
+        first_name: firstName || undefined,
+        last_name: lastNames.join(' ') || undefined,
+        identification: payer?.identification,
+      },
+      additional_info: payer?.phone
+        ? { payer: { first_name: firstName || undefined, phone: { number: payer.phone } } }
+        : undefined,
+    };
+  }
+
+  // Comisión fija del vendedor o el porcentaje configurado sobre el monto del pago
+  private resolveApplicationFee(seller: MarketplaceSeller, intent: PaymentIntent): number | undefined {
+    if (seller.marketplace_fee !== undefined) {
+      return seller.marketplace_fee;
+    }
+    const percentage = this.config.marketplace?.fee_percentage;
+    return percentage !== undefined
+      ? TotalsCalculator.percentageOf(intent.amount, percentage, intent.currency as Currency)
+      : undefined;
+  }
+
+  private buildSearchOptions(filters: PaymentFilters, limit: number, offset: number): Record<string, string | number> {
+    const options: Record<string, string | number> = { limit, offset };
+
+    if (filters.status) options.status = filters.status;
+    if (filters.external_reference) options.external_reference = filters.external_reference;
+    if (filters.payment_method_id) options.payment_method_id = filters.payment_method_id;
+    if (filters.sort) options.sort = filters.sort;
+    if (filters.criteria) options.criteria = filters.criteria;
+
+    if (filters.date_from || filters.date_to) {
+      options.range = filters.sort || 'date_created';
+      if (filters.date_from) options.begin_date = filters.date_from;
+      if (filters.date_to) options.end_date = filters.date_to;
+    }
+
+    return options;
+  }
+
+  private mapRefund(response: any, paymentId: string): Omit<RefundResult, 'total_refunded' | 'remaining_amount'> {
+    return {
+      id: String(response.id),
+      payment_id: String(response.payment_id ?? paymentId),
+      amount: response.amount,
+      status: response.status,
+      date_created: response.date_created || new Date().toISOString(),
+      reason: response.reason || undefined,
+    };
+  }
+
+  private async notifyRefund(payment: any, refund: RefundResult, fullyRefunded: boolean): Promise<void> {
+    const orderId: string = payment.external_reference || String(payment.id);
+    const status: OrderStatus = fullyRefunded ? 'refunded' : 'partially_refunded';
+
+    try {
+      if (this.orderRepository) {
+        const order = await this.orderRepository.findByExternalReference(orderId);
+        if (!order) {
+          this.logger.warn('Order not found for refunded payment', { order_id: orderId, payment_id: payment.id });
+          return;
+        }
+
+        const update = await OrderStateMachine.applyStatus(this.orderRepository, order, status);
+        if (!update.applied) {
+          this.logger.warn('Refund status transition rejected', {
+            order_id: orderId,
+            from: update.previous_status,
+            to: status,
+          });
+        }
+        return;
+      }
+
+      if (this.saveOrderCallback) {
+        await this.saveOrderCallback({
+          id: orderId,
+          customer: payment.payer?.email || '',
+          items_count: payment.additional_info?.items?.length || 0,
+          total_amount: payment.transaction_amount,
+          preference_id: null,
+          status,
+          full_order: null,
+          refund,
+        });
+      }
+    } catch (error) {
+      // El reembolso ya se realizó en MercadoPago, no se revierte por un error de guardado
+      this.logger.error('Error saving refunded order', { order_id: orderId, ...errorFields(error) });
+    }
+  }
+}
@@ -0,0 +1,166 @@
+// api/MercadoPagoApiClient.ts
+
+import { randomUUID } from 'crypto';
+import { HttpPolicy } from '../http/HttpPolicy.js';
+
+interface ApiClientConfig {
+  accessToken: string;
+  timeout?: number;
+  policy?: HttpPolicy; // Compartida entre clientes para que el circuit breaker vea todas las llamadas
+}
+
+/**
+ * Envoltorio delgado sobre el SDK oficial. Todas las llamadas pasan por la
+ * HttpPolicy (reintentos, plazo total y circuit breaker).
+ */
+export class MercadoPagoApiClient {
+  private config: ApiClientConfig;
+  private policy: HttpPolicy;
+
+  constructor(config: ApiClientConfig) {
+    if (!config?.accessToken) {
+      throw new Error('MercadoPago access token is required');
+    }
+    this.config = config;
+    this.policy = config.policy || new HttpPolicy();
+  }
+
+  // Cliente para operar en nombre de un vendedor conectado (marketplace), con la misma política
+  withAccessToken(accessToken: string): MercadoPagoApiClient {
+    return new MercadoPagoApiClient({ ...this.config, accessToken, policy: this.policy });
+  }
+
+  async createPreference(body: any, idempotencyKey: string = randomUUID()): Promise<any> {
+    const { Preference } = await import('mercadopago');
+    const preference = new Preference(await this.getClient());
+    return this.policy.execute('preference.create', () =>
+      preference.create({ body, requestOptions: { idempotencyKey } })
+    );
+  }
+
+  async getMerchantOrder(merchantOrderId: string): Promise<any> {
+    const { MerchantOrder } = await import('mercadopago');
+    const merchantOrder = new MerchantOrder(await this.getClient());
+    return this.policy.execute('merchant_order.get', () => merchantOrder.get({ merchantOrderId }));
+  }
+
+  async getPayment(paymentId: string): Promise<any> {
+    const { Payment } = await import('mercadopago');
+    const payment = new Payment(await this.getClient());
+    return this.policy.execute('payment.get', () => payment.get({ id: paymentId }));
+  }
+
+  // La misma idempotency key en todos los intentos evita cobros duplicados al reintentar
+  async createPayment(body: any, idempotencyKey: string = randomUUID()): Promise<any> {
+    const { Payment } = await import('mercadopago');
+    const payment = new Payment(await this.getClient());
+    return this.policy.execute('payment.create', () =>
+      payment.create({ body, requestOptions: { idempotencyKey } })
+    );
+  }
+
+  async capturePayment(paymentId: string, amount?: number): Promise<any> {
+    const { Payment } = await import('mercadopago');
+    const payment = new Payment(await this.getClient());
+    return this.policy.execute('payment.capture', () => payment.capture({ id: paymentId, transaction_amount: amount }));
+  }
+
+  async cancelPayment(paymentId: string): Promise<any> {
+    const { Payment } = await import('mercadopago');
+    const payment = new Payment(await this.getClient());
+    return this.policy.execute('payment.cancel', () => payment.cancel({ id: paymentId }));
+  }
+
+  async searchPayments(options: Record<string, string | number>): Promise<any> {
+    const { Payment } = await import('mercadopago');
+    const payment = new Payment(await this.getClient());
+    return this.policy.execute('payment.search', () => payment.search({ options }));
+  }
+
+  async refundPayment(paymentId: string, amount?: number): Promise<any> {
+    const { PaymentRefund } = await import('mercadopago');
+    const refund = new PaymentRefund(await this.getClient());
+    const requestOptions = { idempotencyKey: randomUUID() };
+
+    // Sin monto se reembolsa el saldo completo del pago
+    if (amount === undefined) {
+      return this.policy.execute('refund.create', () => refund.total({ payment_id: paymentId, requestOptions }));
+    }
+    return this.policy.execute('refund.create', () =>
+      refund.create({ payment_id: paymentId, body: { amount }, requestOptions })
+    );
+  }
+
+  async listRefunds(paymentId: string): Promise<any[]> {
+    const { PaymentRefund } = await import('mercadopago');
+    const refund = new PaymentRefund(await this.getClient());
+    const response = await this.policy.execute('refund.list', () => refund.list({ payment_id: paymentId }));
+    return Array.isArray(response) ? response : [];
+  }
+
+  async createPreApprovalPlan(body: any, idempotencyKey: string = randomUUID()): Promise<any> {
+    const { PreApprovalPlan } = await import('mercadopago');
+    const plan = new PreApprovalPlan(await this.getClient());
+    return this.policy.execute('preapproval_plan.create', () =>
+      plan.create({ body, requestOptions: { idempotencyKey } })
+    );
+  }
+
+  async getPreApprovalPlan(planId: string): Promise<any> {
+    const { PreApprovalPlan } = await import('mercadopago');
+    const plan = new PreApprovalPlan(await this.getClient());
+    return this.policy.execute('preapproval_plan.get', () => plan.get({ preApprovalPlanId: planId }));
+  }
+
+  async updatePreApprovalPlan(planId: string, body: any): Promise<any> {
+    const { PreApprovalPlan } = await import('mercadopago');
+    const plan = new PreApprovalPlan(await this.getClient());
+    return this.policy.execute('preapproval_plan.update', () =>
+      plan.update({ id: planId, updatePreApprovalPlanRequest: body })
+    );
+  }
+
+  async createPreApproval(body: any, idempotencyKey: string = randomUUID()): Promise<any> {
+    const { PreApproval } = await import('mercadopago');
+    const preApproval = new PreApproval(await this.getClient());
+    return this.policy.execute('preapproval.create', () =>
+      preApproval.create({ body, requestOptions: { idempotencyKey } })
+    );
+  }
+
+  async getPreApproval(preApprovalId: string): Promise<any> {
+    const { PreApproval } = await import('mercadopago');
+    const preApproval = new PreApproval(await this.getClient());
+    return this.policy.execute('preapproval.get', () => preApproval.get({ id: preApprovalId }));
+  }
+
+  async updatePreApproval(preApprovalId: string, body: any): Promise<any> {
+    const { PreApproval } = await import('mercadopago');
+    const preApproval = new PreApproval(await this.getClient());
+    return this.policy.execute('preapproval.update', () => preApproval.update({ id: preApprovalId, body }));
+  }
+
+  // Cobro periódico de una suscripción; el SDK lo expone como Invoice
+  async getAuthorizedPayment(authorizedPaymentId: string): Promise<any> {
+    const { Invoice } = await import('mercadopago');
+    const invoice = new Invoice(await this.getClient());
+    return this.policy.execute('authorized_payment.get', () => invoice.get({ id: authorizedPaymentId }));
+  }
+
+  private async getClient() {
+    // Importar MercadoPago dinámicamente para evitar problemas de dependencias
+    const { MercadoPagoConfig } = await import('mercadopago');
+
+    // retries: 1 es un único intento; la HttpPolicy es la única capa de reintentos.
+    // El SDK lo acepta aunque no lo declare en Options
+    const options = {
+      timeout: this.config.timeout || 5000,
+      retries: 1,
+    };
+
+    return new MercadoPagoConfig({
+      accessToken: this.config.accessToken,
+      options,
+    });
+  }
+}
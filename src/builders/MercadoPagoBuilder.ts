@@ -1,6 +1,30 @@
 // builders/MercadoPagoBuilder.ts
 
-import { PaymentRequest, MercadoPagoConfig } from '../types';
+import { randomUUID } from 'crypto';
+import {
+  PaymentRequest,
+  MercadoPagoConfig,
+  Currency,
+  Order,
+  OrderRepository,
+  SaveOrderCallback,
+  Logger,
+  PreferenceOptions,
+  CustomerInfo,
+  ShippingAddress,
+  ShippingOptions,
+  TotalsBreakdown,
+  MarketplaceSeller,
+} from '../types/index.js';
+import { DEFAULT_CURRENCY, fromMinorUnits, toMinorUnits } from '../utils/currency.js';
+import { DEFAULT_EXCLUDED_PAYMENT_TYPES, DEFAULT_MAX_INSTALLMENTS, mergePreferenceOptions } from '../utils/preference.js';
+import { formatDimensions, knownShippingCost } from '../utils/shipping.js';
+import { errorFields, resolveLogger } from '../logging/Logger.js';
+import { MercadoPagoApiClient } from '../api/MercadoPagoApiClient.js';
+import { HttpPolicy, resolveHttpPolicyOptions } from '../http/HttpPolicy.js';
+import { MercadoPagoApiError, PersistenceError } from '../errors/PaymentErrors.js';
+import { IdentificationValidator } from '../validators/IdentificationValidator.js';
+import { TotalsCalculator } from '../pricing/TotalsCalculator.js';
 
 interface MercadoPagoPreferenceData {
   items: Array<{
@@ -16,69 +40,77 @@ interface MercadoPagoPreferenceData {
     failure: string;
     pending: string;
   };
-  auto_return: string;
+  payer: {
+    name: string;
+    surname: string;
+    email: string;
+    phone?: { area_code?: string; number: string };
+    identification?: { type: string; number: string };
+    address?: { street_name: string; street_number?: string; zip_code?: string };
+  };
+  auto_return?: string;
   notification_url: string;
+  external_reference: string;
   payment_methods: {
     installments: number;
+    default_installments?: number;
     excluded_payment_types: Array<{ id: string }>;
+    excluded_payment_methods: Array<{ id: string }>;
+  };
+  shipments?: {
+    mode: string;
+    cost?: number;
+    free_shipping?: boolean;
+    local_pickup?: boolean;
+    dimensions?: string;
+    receiver_address?: ShippingAddress;
   };
+  statement_descriptor?: string;
+  binary_mode?: boolean;
   date_of_expiration: string;
-  metadata: {
+  expires?: boolean;
+  expiration_date_from?: string;
+  expiration_date_to?: string;
+  marketplace_fee?: number;
+  metadata: Record<string, any> & {
     customer_email: string;
     customer_name: string;
-    service_category: string;
     expiration_minutes: number;
     created_at: string;
     total_items: number;
+    subtotal_amount: number;
+    discount_amount: number;
+    tax_amount: number;
     total_amount: number;
+    currency_id: string;
   };
 }
 
-interface Order {
-  id: string;
-  customer_info: {
-    email: string;
-    name: string;
-  };
-  items: Array<{
-    id?: string;
-    title: string;
-    description?: string;
-    quantity: number;
-    unit_price: number;
-    total_price: number;
-  }>;
-  total_amount: number;
-  total_items: number;
-  preference_id: string;
-  status: string;
-  created_at: string;
-  expires_at: string;
-}
-
-// Tipo para el callback de guardado
-type SaveOrderCallback = (orderData: {
-  id: string;
-  customer: string;
-  items_count: number;
-  total_amount: number;
-  preference_id: string;
-  full_order: Order;
-}) => Promise<void> | void;
-
 export class MercadoPagoBuilder {
   private config: MercadoPagoConfig;
+  private logger: Logger;
   private preferenceData: MercadoPagoPreferenceData | null = null;
   private order: Order | null = null;
   private paymentRequest: PaymentRequest | null = null;
   private paymentUrl: string | null = null; // Nueva propiedad para almacenar init_point
-  private saveOrderCallback: SaveOrderCallback | null = null;
+  private orderId: string | null = null; // Se genera antes de la preferencia para enviarlo como external_reference
+  private saveOrderCallback: SaveOrderCallback<Order> | null = null;
+  private orderRepository: OrderRepository | null = null;
+  private totals: TotalsBreakdown | null = null;
+  private seller: MarketplaceSeller | null = null; // Marketplace: la preferencia se crea con su token
+  private apiClient: MercadoPagoApiClient;
 
-  constructor(config: MercadoPagoConfig) {
+  constructor(config: MercadoPagoConfig, apiClient?: MercadoPagoApiClient) {
     if (!config) {
       throw new Error('MercadoPago configuration is required');
     }
     this.config = config;
+    this.logger = resolveLogger(config.logger);
+    this.apiClient = apiClient || new MercadoPagoApiClient({
+      accessToken: config.accessToken,
+      timeout: config.timeout,
+      policy: new HttpPolicy(resolveHttpPolicyOptions(config), this.logger),
+    });
   }
 
   setPaymentRequest(request: PaymentRequest): this {
@@ -86,82 +118,216 @@ export class MercadoPagoBuilder {
     return this;
   }
 
+  /**
+   * Totales ya calculados (p. ej. con el cupón resuelto por el servicio).
+   * Sin llamarlo, buildPreference los calcula con descuentos e impuestos pero sin cupón.
+   */
+  setTotals(totals: TotalsBreakdown): this {
+    this.totals = totals;
+    return this;
+  }
+
+  setSeller(seller: MarketplaceSeller): this {
+    this.seller = seller;
+    return this;
+  }
+
   // Nuevo método para establecer el callback de guardado
-  setSaveOrderCallback(callback: SaveOrderCallback): this {
+  setSaveOrderCallback(callback: SaveOrderCallback<Order>): this {
     this.saveOrderCallback = callback;
     return this;
   }
 
+  setOrderRepository(repository: OrderRepository): this {
+    this.orderRepository = repository;
+    return this;
+  }
+
   buildPreference(): this {
     if (!this.paymentRequest) {
       throw new Error('Payment request is required');
     }
 
-    const { items, customer_info } = this.paymentRequest;
+    const { customer_info, coupon_code } = this.paymentRequest;
+    const currency = this.resolveCurrency();
+    const options = this.resolvePreferenceOptions();
+    // El sufijo evita que dos pagos creados en el mismo milisegundo compartan id
+    this.orderId = `order_${Date.now()}_${randomUUID().slice(0, 8)}`;
     const now = new Date();
-    const expiration_in_minutes = (this.config.expirationTime || 20);
+    const expiration_in_minutes = this.resolveExpirationMinutes();
     const expirationDate = new Date(now.getTime() + expiration_in_minutes * 60 * 1000);
 
-    // Calcular totales
-    const totalAmount = items.reduce((sum, item) => sum + (item.quantity * item.unit_price), 0);
-    const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
-
-    // Construir items para MercadoPago
-    const mercadoPagoItems = items.map((item, index) => ({
-      id: item.id || `item_${Date.now()}_${index}`,
-      title: item.title,
-      description: item.description || item.title,
-      quantity: item.quantity,
-      unit_price: item.unit_price,
-      currency_id: 'COP',
-    }));
+    const totals = this.resolveTotals(currency);
+    const totalItems = totals.lines.reduce((sum, line) => sum + line.quantity, 0);
+    const shipping = this.paymentRequest.shipping;
+    const marketplaceFee = this.resolveMarketplaceFee(totals);
+
+    // Items para MercadoPago con descuentos e impuestos ya aplicados al precio unitario;
+    // las líneas que quedan en 0 no se envían porque MercadoPago exige unit_price > 0.
+    // Una línea partida en dos grupos lleva un sufijo por grupo para que cada item tenga id propio
+    const mercadoPagoItems = totals.lines.flatMap(line => {
+      const lineId = line.id || `item_${Date.now()}_${line.index}`;
+      const groups = TotalsCalculator.splitUnitPrices(line, currency);
+      return groups.map((group, groupIndex) => ({
+        id: groups.length > 1 ? `${lineId}-${groupIndex + 1}` : lineId,
+        title: line.title,
+        description: line.description || line.title,
+        quantity: group.quantity,
+        unit_price: group.unit_price,
+        currency_id: currency,
+      }));
+    });
+
+    const autoReturn = options.auto_return ?? 'approved';
 
     this.preferenceData = {
       items: mercadoPagoItems,
       back_urls: {
-        success: `${this.config.baseUrl}/payment/success`,
-        failure: `${this.config.baseUrl}/payment/failure`,
-        pending: `${this.config.baseUrl}/payment/success`,
+        success: options.back_urls?.success || `${this.config.baseUrl}/payment/success`,
+        failure: options.back_urls?.failure || `${this.config.baseUrl}/payment/failure`,
+        pending: options.back_urls?.pending || `${this.config.baseUrl}/payment/pending`,
       },
-      auto_return: 'approved',
+      payer: this.buildPayer(customer_info),
+      ...(autoReturn ? { auto_return: autoReturn } : {}),
       notification_url: `${this.config.WEBHOOK_URL}`,
+      external_reference: this.resolveExternalReference(),
       payment_methods: {
-        installments: 12,
-        excluded_payment_types: [{ id: 'ticket' }],
+        installments: options.max_installments ?? DEFAULT_MAX_INSTALLMENTS,
+        default_installments: options.default_installments,
+        excluded_payment_types: (options.excluded_payment_types ?? DEFAULT_EXCLUDED_PAYMENT_TYPES).map(id => ({ id })),
+        excluded_payment_methods: (options.excluded_payment_methods ?? []).map(id => ({ id })),
       },
+      shipments: shipping ? this.buildShipments(shipping, currency) : undefined,
+      statement_descriptor: options.statement_descriptor,
+      binary_mode: options.binary_mode,
       date_of_expiration: expirationDate.toISOString(),
+      // Con expires el link de pago también deja de estar disponible
+      ...(options.expires
+        ? {
+            expires: true,
+            expiration_date_from: now.toISOString(),
+            expiration_date_to: expirationDate.toISOString(),
+          }
+        : {}),
+      marketplace_fee: marketplaceFee,
       metadata: {
+        ...options.metadata,
         customer_email: customer_info.email,
         customer_name: customer_info.name,
-        service_category: 'web_development',
         expiration_minutes: expiration_in_minutes,
         created_at: now.toISOString(),
         total_items: totalItems,
-        total_amount: totalAmount,
+        subtotal_amount: totals.subtotal,
+        discount_amount: totals.discount_total,
+        tax_amount: totals.tax_total,
+        total_amount: totals.total,
+        currency_id: currency,
+        ...(coupon_code ? { coupon_code } : {}),
+        ...(this.seller
+          ? {
+              marketplace_fee: marketplaceFee,
+              seller_id: this.seller.id,
+            }
+          : {}),
+        // Vuelven en la metadata del pago y permiten reconstruir el envío en el webhook
+        ...(shipping
+          ? {
+              shipping_mode: shipping.mode,
+              shipping_cost: knownShippingCost(shipping, currency),
+              free_shipping: shipping.free_shipping === true,
+            }
+          : {}),
       },
     };
 
     return this;
   }
 
+  private buildShipments(shipping: ShippingOptions, currency: Currency): MercadoPagoPreferenceData['shipments'] {
+    const cost = knownShippingCost(shipping, currency);
+
+    return {
+      mode: shipping.mode,
+      cost: shipping.mode === 'custom' && cost !== null ? cost : undefined,
+      free_shipping: shipping.free_shipping,
+      local_pickup: shipping.local_pickup,
+      dimensions: shipping.mode === 'me2' && shipping.dimensions ? formatDimensions(shipping.dimensions) : undefined,
+      receiver_address: shipping.receiver_address,
+    };
+  }
+
+  // Comisión fija del vendedor o el porcentaje configurado sobre el total; sin vendedor no hay comisión
+  private resolveMarketplaceFee(totals: TotalsBreakdown): number | undefined {
+    if (!this.seller) {
+      return undefined;
+    }
+    if (this.seller.marketplace_fee !== undefined) {
+      return this.seller.marketplace_fee;
+    }
+    const percentage = this.config.marketplace?.fee_percentage;
+    return percentage !== undefined ? TotalsCalculator.percentageOf(totals.total, percentage, totals.currency) : 0;
+  }
+
+  // Preferencia y orden salen del mismo desglose
+  private resolveTotals(currency: Currency): TotalsBreakdown {
+    if (!this.totals) {
+      this.totals = TotalsCalculator.calculate(this.paymentRequest!, { currency, tax: this.config.tax });
+    }
+    return this.totals;
+  }
+
+  // Datos del pagador precargados en el checkout; mejoran la tasa de aprobación
+  private buildPayer(info: CustomerInfo): MercadoPagoPreferenceData['payer'] {
+    const [firstName, ...lastNames] = info.name.trim().split(/\s+/);
+
+    return {
+      name: info.surname ? info.name.trim() : firstName,
+      surname: info.surname || lastNames.join(' '),
+      email: info.email,
+      phone: info.phone ? { area_code: info.phone.area_code, number: info.phone.number } : undefined,
+      identification: info.identification
+        ? {
+            type: info.identification.type,
+            number: IdentificationValidator.normalize(info.identification.number),
+          }
+        : undefined,
+      address: info.address
+        ? {
+            street_name: info.address.street_name,
+            street_number: info.address.street_number,
+            zip_code: info.address.zip_code,
+          }
+        : undefined,
+    };
+  }
+
+  // La referencia del comerciante tiene prioridad; si no, se usa el id de la orden
+  private resolveExternalReference(): string {
+    return this.paymentRequest?.external_reference || this.orderId || `order_${Date.now()}`;
+  }
+
+  private resolvePreferenceOptions(): PreferenceOptions {
+    return mergePreferenceOptions(this.config.preference, this.paymentRequest?.preference);
+  }
+
+  private resolveExpirationMinutes(): number {
+    return this.resolvePreferenceOptions().expiration_minutes ?? (this.config.expirationTime || 20);
+  }
+
+  private resolveCurrency(): Currency {
+    return this.paymentRequest?.currency || this.config.currency || DEFAULT_CURRENCY;
+  }
+
   async createPreference(): Promise<this> {
     if (!this.preferenceData) {
       throw new Error('Preference data must be built first');
     }
 
     try {
-      // Importar MercadoPago dinámicamente para evitar problemas de dependencias
-      const { MercadoPagoConfig, Preference } = await import('mercadopago');
-      
-      const client = new MercadoPagoConfig({
-        accessToken: this.config.accessToken,
-        options: {
-          timeout: this.config.timeout || 5000,
-        },
-      });
-
-      const preference = new Preference(client);
-      const response = await preference.create({ body: this.preferenceData });
+      // El orderId como clave por defecto hace seguros los reintentos de la HttpPolicy
+      const idempotencyKey = this.paymentRequest?.idempotency_key || this.orderId || undefined;
+      const client = this.seller ? this.apiClient.withAccessToken(this.seller.access_token) : this.apiClient;
+      const response = await client.createPreference(this.preferenceData, idempotencyKey);
       
       if (!response.id || !response.init_point) {
         throw new Error('Failed to create MercadoPago preference - missing ID or init_point');
@@ -172,8 +338,12 @@ export class MercadoPagoBuilder {
       
       return this;
     } catch (error) {
-      console.error('Error creating MercadoPago preference:', error);
-      throw new Error('Error al crear la preferencia de pago en MercadoPago');
+      this.logger.error('Error creating MercadoPago preference', errorFields(error));
+      throw MercadoPagoApiError.fromSdkError(
+        error,
+        'preference_creation_failed',
+        'Error al crear la preferencia de pago en MercadoPago'
+      );
     }
   }
 
@@ -182,29 +352,60 @@ export class MercadoPagoBuilder {
       throw new Error('Payment request is required');
     }
 
+    const currency = this.resolveCurrency();
+    const totals = this.resolveTotals(currency);
+
     // Procesar items para la orden
-    const orderItems = this.paymentRequest.items.map(item => ({
-      id: item.id,
-      title: item.title,
-      description: item.description,
-      quantity: item.quantity,
-      unit_price: item.unit_price,
-      total_price: item.quantity * item.unit_price,
+    const orderItems = totals.lines.map(line => ({
+      id: line.id,
+      title: line.title,
+      description: line.description,
+      quantity: line.quantity,
+      unit_price: line.unit_price,
+      discount_amount: line.discount_amount,
+      tax_amount: line.tax_amount,
+      total_price: line.total,
     }));
 
-    // Calcular totales
-    const totalAmount = orderItems.reduce((sum, item) => sum + item.total_price, 0);
     const totalItems = orderItems.reduce((sum, item) => sum + item.quantity, 0);
+    const { coupon_code } = this.paymentRequest;
+    const shipping = this.paymentRequest.shipping;
+    const marketplaceFee = this.resolveMarketplaceFee(totals);
 
     const now = new Date();
-    const expirationTime = (this.config.expirationTime || 20) * 60 * 1000;
+    const expirationTime = this.resolveExpirationMinutes() * 60 * 1000;
 
     this.order = {
-      id: `order_${Date.now()}`,
+      id: this.orderId || `order_${Date.now()}`,
+      external_reference: this.resolveExternalReference(),
       customer_info: this.paymentRequest.customer_info,
       items: orderItems,
-      total_amount: totalAmount,
+      subtotal_amount: totals.subtotal,
+      discount_amount: totals.discount_total,
+      tax_amount: totals.tax_total,
+      total_amount: totals.total,
       total_items: totalItems,
+      discounts: totals.discounts.length > 0 ? totals.discounts : undefined,
+      coupon_code,
+      currency_id: currency,
+      shipping: shipping
+        ? {
+            mode: shipping.mode,
+            cost: knownShippingCost(shipping, currency),
+            free_shipping: shipping.free_shipping === true,
+            receiver_address: shipping.receiver_address,
+          }
+        : undefined,
+      marketplace: this.seller && marketplaceFee !== undefined
+        ? {
+            seller_id: this.seller.id || null,
+            marketplace_fee: marketplaceFee,
+            seller_amount: fromMinorUnits(
+              toMinorUnits(totals.total, currency) - toMinorUnits(marketplaceFee, currency),
+              currency
+            ),
+          }
+        : undefined,
       preference_id: preferenceId,
       status: 'pending',
       created_at: now.toISOString(),
@@ -225,21 +426,27 @@ export class MercadoPagoBuilder {
         items_count: this.order.total_items,
         total_amount: this.order.total_amount,
         preference_id: this.order.preference_id,
+        status: this.order.status,
         full_order: this.order
       };
 
-      // Ejecutar callback personalizado si existe
-      if (this.saveOrderCallback) {
+      // Guardar en el repositorio o ejecutar callback personalizado si existe
+      if (this.orderRepository) {
+        await this.orderRepository.save(this.order);
+      } else if (this.saveOrderCallback) {
         await this.saveOrderCallback(orderData);
       } else {
         // Fallback
-        console.error('no saveOrderCallback provided, order data:');
+        this.logger.warn('No orderRepository or saveOrderCallback provided, order not saved', {
+          order_id: this.order.id,
+          preference_id: this.order.preference_id,
+        });
       }
       
       return this;
     } catch (error) {
-      console.error('Error saving order:', error);
-      throw new Error('Error al guardar la orden en la base de datos');
+      this.logger.error('Error saving order', { order_id: this.order.id, ...errorFields(error) });
+      throw new PersistenceError('Error al guardar la orden en la base de datos', error);
     }
   }
 
@@ -259,6 +466,10 @@ export class MercadoPagoBuilder {
     this.order = null;
     this.paymentRequest = null;
     this.paymentUrl = null;
+    this.orderId = null;
+    this.totals = null;
+    this.seller = null;
     this.saveOrderCallback = null;
+    this.orderRepository = null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,146 @@
+// errors/PaymentErrors.ts
+
+import {
+  MercadoPagoErrorCause,
+  PaymentError,
+  ValidationIssue,
+  ValidationResult,
+  WebhookSignatureErrorCode,
+} from '../types/index.js';
+import { CircuitOpenError, DeadlineExceededError, HttpPolicy } from '../http/HttpPolicy.js';
+
+interface PaymentLibErrorOptions {
+  code: string;
+  status?: number;
+  details?: any;
+  causes?: MercadoPagoErrorCause[];
+  cause?: unknown;
+}
+
+/**
+ * Base de los errores de la librería. Implementa PaymentError, por lo que puede
+ * devolverse en `error` de las respuestas y serializarse como JSON sin perder el código.
+ */
+export class PaymentLibError extends Error implements PaymentError {
+  readonly code: string;
+  readonly status?: number;
+  readonly details?: any;
+  readonly causes: MercadoPagoErrorCause[];
+  readonly cause?: unknown;
+
+  constructor(message: string, options: PaymentLibErrorOptions) {
+    super(message);
+    this.name = 'PaymentLibError';
+    this.code = options.code;
+    this.status = options.status;
+    this.details = options.details;
+    this.causes = options.causes || [];
+    this.cause = options.cause;
+  }
+
+  toJSON(): PaymentError {
+    return {
+      code: this.code,
+      message: this.message,
+      status: this.status,
+      details: this.details,
+      causes: this.causes.length > 0 ? this.causes : undefined,
+    };
+  }
+}
+
+// Datos de entrada inválidos; `details` contiene los mensajes y `issues` el código y la ruta de cada campo
+export class ValidationError extends PaymentLibError {
+  readonly issues: ValidationIssue[];
+
+  constructor(details: string[] = [], message = 'Datos inválidos', issues: ValidationIssue[] = []) {
+    super(message, { code: 'validation_error', status: 400, details });
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+
+  static fromResult(result: ValidationResult, message?: string): ValidationError {
+    return new ValidationError(result.errors, message, result.issues);
+  }
+
+  toJSON(): PaymentError {
+    return { ...super.toJSON(), issues: this.issues.length > 0 ? this.issues : undefined };
+  }
+}
+
+/**
+ * Error devuelto por la API de MercadoPago (o la falta de respuesta).
+ * `causes` conserva el arreglo `cause` del cuerpo de error, p. ej. [{ code: 2006, description: 'Card Token not found' }]
+ */
+export class MercadoPagoApiError extends PaymentLibError {
+  readonly retryable: boolean;
+
+  constructor(message: string, options: PaymentLibErrorOptions & { retryable?: boolean }) {
+    super(message, options);
+    this.name = 'MercadoPagoApiError';
+    this.retryable = options.retryable ?? false;
+  }
+
+  /**
+   * El SDK lanza el cuerpo JSON de la respuesta ({ message, error, status, cause })
+   * o el error de red de fetch.
+   */
+  static fromSdkError(error: any, fallbackCode: string, fallbackMessage: string): MercadoPagoApiError {
+    if (error instanceof MercadoPagoApiError) {
+      return error;
+    }
+
+    if (error instanceof CircuitOpenError) {
+      return new MercadoPagoApiError(error.message, {
+        code: 'circuit_open',
+        status: 503,
+        cause: error,
+        retryable: true,
+      });
+    }
+
+    if (error instanceof DeadlineExceededError) {
+      return new MercadoPagoApiError(error.message, {
+        code: 'deadline_exceeded',
+        status: 504,
+        cause: error,
+        retryable: true,
+      });
+    }
+
+    const status = typeof error?.status === 'number' ? error.status : undefined;
+    const causes: MercadoPagoErrorCause[] = Array.isArray(error?.cause) ? error.cause : [];
+
+    return new MercadoPagoApiError(error?.message || fallbackMessage, {
+      code: error?.error || fallbackCode,
+      status,
+      details: causes.length > 0 ? causes : undefined,
+      causes,
+      cause: error,
+      retryable: HttpPolicy.isRetryable(error),
+    });
+  }
+
+  toJSON(): PaymentError {
+    return { ...super.toJSON(), retryable: this.retryable };
+  }
+}
+
+// Falla del OrderRepository o del callback de guardado
+export class PersistenceError extends PaymentLibError {
+  constructor(message: string, cause?: unknown) {
+    super(message, { code: 'persistence_error', status: 500, cause });
+    this.name = 'PersistenceError';
+  }
+}
+
+// Firma x-signature de un webhook ausente o inválida
+export class SignatureError extends PaymentLibError {
+  readonly code: WebhookSignatureErrorCode;
+
+  constructor(code: WebhookSignatureErrorCode, message: string) {
+    super(message, { code, status: 403 });
+    this.name = 'SignatureError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,205 @@
+// http/HttpPolicy.ts
+
+import { HttpPolicyOptions, Logger } from '../types/index.js';
+import { errorFields, silentLogger } from '../logging/Logger.js';
+
+const DEFAULTS = {
+  retries: 2,
+  baseDelayMs: 200,
+  maxDelayMs: 5000,
+  deadlineMs: 20000,
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+};
+
+// Códigos de error de red de Node / node-fetch que vale la pena reintentar
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND', 'UND_ERR_SOCKET'];
+
+export class CircuitOpenError extends Error {
+  readonly retryAt: number;
+
+  constructor(retryAt: number) {
+    super('MercadoPago API circuit is open, request not sent');
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+// Un intento que no responde dentro del plazo total se abandona; es reintentable para quien llama
+export class DeadlineExceededError extends Error {
+  readonly operation: string;
+  readonly deadlineMs: number;
+
+  constructor(operation: string, deadlineMs: number) {
+    super(`MercadoPago API call ${operation} exceeded the ${deadlineMs} ms deadline`);
+    this.name = 'DeadlineExceededError';
+    this.operation = operation;
+    this.deadlineMs = deadlineMs;
+  }
+}
+
+/**
+ * Política compartida para las llamadas a la API de MercadoPago:
+ * reintentos con backoff exponencial y jitter solo ante errores de red, 429 y 5xx,
+ * un plazo total por operación y un circuit breaker ante fallas consecutivas.
+ */
+export class HttpPolicy {
+  private retries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private deadlineMs: number;
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private circuitEnabled: boolean;
+  private logger: Logger;
+
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private halfOpenTrial = false;
+
+  constructor(options: HttpPolicyOptions = {}, logger: Logger = silentLogger) {
+    this.retries = options.retries ?? DEFAULTS.retries;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULTS.baseDelayMs;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULTS.maxDelayMs;
+    this.deadlineMs = options.deadlineMs ?? DEFAULTS.deadlineMs;
+    const breaker = options.circuitBreaker === false ? {} : options.circuitBreaker || {};
+    this.circuitEnabled = options.circuitBreaker !== false;
+    this.failureThreshold = breaker.failureThreshold ?? DEFAULTS.failureThreshold;
+    this.resetTimeoutMs = breaker.resetTimeoutMs ?? DEFAULTS.resetTimeoutMs;
+    this.logger = logger;
+  }
+
+  async execute<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    let attempt = 0;
+
+    while (true) {
+      this.checkCircuit();
+
+      try {
+        const remainingMs = this.deadlineMs - (Date.now() - startedAt);
+        const result = await this.withDeadline(operation, fn(), remainingMs);
+        this.recordSuccess();
+        return result;
+      } catch (error) {
+        const retryable = HttpPolicy.isRetryable(error);
+        if (retryable) {
+          this.recordFailure();
+        } else {
+          // Un 4xx indica que la API responde: no cuenta para el circuito
+          this.recordSuccess();
+        }
+
+        const delay = this.backoffDelay(attempt);
+        const withinDeadline = Date.now() - startedAt + delay < this.deadlineMs;
+
+        if (!retryable || attempt >= this.retries || !withinDeadline || this.isOpen()) {
+          throw error;
+        }
+
+        attempt++;
+        this.logger.warn('Retrying MercadoPago API call', {
+          operation,
+          attempt,
+          delay_ms: delay,
+          ...errorFields(error),
+        });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Errores de red, 429 y 5xx. Los errores del SDK son el cuerpo JSON de la respuesta,
+   * con el status HTTP en `status`.
+   */
+  static isRetryable(error: unknown): boolean {
+    if (error instanceof CircuitOpenError) {
+      return false;
+    }
+    if (error instanceof DeadlineExceededError) {
+      return true;
+    }
+
+    const err = error as Record<string, any> | null;
+    const status = typeof err?.status === 'number' ? err.status : undefined;
+    if (status !== undefined) {
+      return status === 429 || status >= 500;
+    }
+
+    if (err?.name === 'AbortError' || err?.name === 'FetchError' || err?.type === 'request-timeout') {
+      return true;
+    }
+
+    const code = err?.code || err?.cause?.code;
+    return typeof code === 'string' && RETRYABLE_NETWORK_CODES.includes(code);
+  }
+
+  // El SDK no permite cancelar la petición: si vence el plazo su resultado se descarta
+  private withDeadline<T>(operation: string, attempt: Promise<T>, remainingMs: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new DeadlineExceededError(operation, this.deadlineMs)), Math.max(remainingMs, 0));
+    });
+
+    attempt.catch(() => undefined);
+    return Promise.race([attempt, deadline]).finally(() => clearTimeout(timer));
+  }
+
+  // Full jitter: aleatorio entre 0 y el backoff exponencial acotado
+  private backoffDelay(attempt: number): number {
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * exponential);
+  }
+
+  private checkCircuit(): void {
+    if (!this.circuitEnabled || this.openedAt === null) {
+      return;
+    }
+
+    const retryAt = this.openedAt + this.resetTimeoutMs;
+    if (Date.now() < retryAt || this.halfOpenTrial) {
+      throw new CircuitOpenError(retryAt);
+    }
+
+    // Half-open: se deja pasar una sola petición de prueba
+    this.halfOpenTrial = true;
+  }
+
+  private isOpen(): boolean {
+    return this.circuitEnabled && this.openedAt !== null;
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.halfOpenTrial = false;
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+
+    if (!this.circuitEnabled) {
+      return;
+    }
+
+    if (this.halfOpenTrial || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.openedAt === null || this.halfOpenTrial) {
+        this.logger.error('MercadoPago API circuit opened', {
+          consecutive_failures: this.consecutiveFailures,
+          reset_timeout_ms: this.resetTimeoutMs,
+        });
+      }
+      this.openedAt = Date.now();
+      this.halfOpenTrial = false;
+    }
+  }
+}
+
+// `retries` en la raíz de la config es un atajo; httpPolicy.retries tiene prioridad
+export function resolveHttpPolicyOptions(config: { retries?: number; httpPolicy?: HttpPolicyOptions }): HttpPolicyOptions {
+  return {
+    ...config.httpPolicy,
+    retries: config.httpPolicy?.retries ?? config.retries,
+  };
+}
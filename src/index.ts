@@ -1,27 +1,151 @@
 //payments-lib/index.ts
 
 // Main service export
-export { MercadoPagoService } from './MercadoPagoService';
+export { MercadoPagoService } from './MercadoPagoService.js';
+
+// Subscriptions export
+export { MercadoPagoSubscriptionService } from './subscriptions/MercadoPagoSubscriptionService.js';
 
 // Webhook handler export
-export { MercadoPagoWebhookHandler } from './webhooks/MercadoPagoWebhookHandler';
+export { MercadoPagoWebhookHandler } from './webhooks/MercadoPagoWebhookHandler.js';
+export { fromFetchRequest, fromNodeRequest, fromRawInput } from './webhooks/adapters.js';
+
+// Stores export
+export { InMemoryIdempotencyStore } from './stores/InMemoryIdempotencyStore.js';
+export { InMemoryWebhookDedupStore } from './stores/InMemoryWebhookDedupStore.js';
+
+// Orders export
+export { InMemoryOrderRepository } from './orders/InMemoryOrderRepository.js';
+export { OrderStateMachine, InvalidOrderTransitionError } from './orders/OrderStateMachine.js';
+
+// Logging export
+export { createConsoleLogger, silentLogger } from './logging/Logger.js';
+
+// Errors export
+export {
+  PaymentLibError,
+  ValidationError,
+  MercadoPagoApiError,
+  PersistenceError,
+  SignatureError,
+} from './errors/PaymentErrors.js';
+
+// HTTP policy export
+export { HttpPolicy, CircuitOpenError, DeadlineExceededError } from './http/HttpPolicy.js';
+
+// Pricing export
+export { TotalsCalculator } from './pricing/TotalsCalculator.js';
+export type { TotalsOptions } from './pricing/TotalsCalculator.js';
 
 // Types export
 export type {
   MercadoPagoConfig,
   PaymentRequest,
+  PreferenceOptions,
+  PaymentTypeId,
+  ShippingMode,
+  ShippingOptions,
+  ShippingAddress,
+  ShippingDimensions,
+  PaymentShippingInfo,
+  OrderShipping,
+  Discount,
+  DiscountType,
+  AppliedDiscount,
+  TaxOptions,
+  CouponResolver,
+  CouponContext,
+  TotalsBreakdown,
+  TotalsLine,
+  MarketplaceSeller,
+  MarketplaceConfig,
+  OrderMarketplace,
+  PaymentFeeBreakdown,
+  ProcessPaymentOptions,
+  PaymentOperationOptions,
   PaymentResponse,
   PaymentResult,
   CustomerInfo,
+  IdentificationType,
   PaymentItem,
   ValidationResult,
+  ValidationIssue,
+  ValidationIssueInput,
+  ValidationLocale,
+  ValidationOptions,
+  ValidationRule,
+  ValidationRuleContext,
+  Currency,
+  OrderStatus,
+  Order,
+  OrderItem,
+  OrderRepository,
+  OrderStatusUpdate,
+  SaveOrderData,
+  SaveOrderCallback,
+  RefundOptions,
+  RefundResult,
+  RefundResponse,
+  RefundListResponse,
+  SubscriptionFrequency,
+  SubscriptionFrequencyType,
+  SubscriptionFreeTrial,
+  BillingDay,
+  AutoRecurringOptions,
+  SubscriptionPaymentMethodsAllowed,
+  SubscriptionPlanStatus,
+  SubscriptionPlanRequest,
+  SubscriptionPlanUpdate,
+  SubscriptionPlan,
+  SubscriptionPlanResponse,
+  SubscriptionStatus,
+  SubscriptionRequest,
+  SubscriptionUpdate,
+  SubscriptionAutoRecurring,
+  Subscription,
+  SubscriptionResponse,
+  SubscriptionAuthorizedPayment,
+  PaymentError,
+  MercadoPagoErrorCause,
+  ApiResponse,
+  IdempotencyStore,
+  WebhookDedupStore,
+  PaymentFilters,
+  PaginationOptions,
+  DateRange,
+  PaymentStatus,
+  PaymentResultWeebhook,
+  PaymentListResponse,
+  PaymentIntent,
+  CreatePaymentOptions,
+  PaymentResponseWeebhook,
   WebhookEvent,
   WebhookResult,
   WebhookConfig,
-} from './types';
+  WebhookLogData,
+  WebhookProcessResult,
+  WebhookSignatureError,
+  WebhookSignatureErrorCode,
+  WebhookEventMap,
+  WebhookEventName,
+  WebhookEventListener,
+  WebhookRequestData,
+  RawWebhookInput,
+  Logger,
+  LogLevel,
+  LogFields,
+  RedactionOptions,
+  HttpPolicyOptions,
+  CircuitBreakerOptions,
+  MerchantOrderInfo,
+  MerchantOrderPaymentState,
+  MerchantOrderPaymentSummary,
+} from './types/index.js';
 
 // Validators export
-export { PaymentValidator } from './validators/PaymentValidator';
+export { PaymentValidator } from './validators/PaymentValidator.js';
+export { ValidationRules } from './validators/ValidationRules.js';
+export { IdentificationValidator } from './validators/IdentificationValidator.js';
 
 // Builders export (for advanced usage)
-export { MercadoPagoBuilder } from './builders/MercadoPagoBuilder';
\ No newline at end of file
+export { MercadoPagoBuilder } from './builders/MercadoPagoBuilder.js';
\ No newline at end of file
@@ -0,0 +1,72 @@
+// logging/Logger.ts
+
+import { LogFields, LogLevel, Logger } from '../types/index.js';
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Logger que escribe en consola una línea JSON por evento, a partir de `minLevel`
+ */
+export function createConsoleLogger(minLevel: LogLevel = 'debug'): Logger {
+  const write = (level: LogLevel, message: string, fields?: LogFields) => {
+    if (LEVEL_PRIORITY[level] < LEVEL_PRIORITY[minLevel]) {
+      return;
+    }
+
+    const entry = JSON.stringify({
+      level,
+      message,
+      ...fields,
+      timestamp: new Date().toISOString(),
+    });
+
+    if (level === 'error') console.error(entry);
+    else if (level === 'warn') console.warn(entry);
+    else console.log(entry);
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+  };
+}
+
+/**
+ * Logger configurado o, por defecto, silencioso en producción y consola en desarrollo
+ */
+export function resolveLogger(logger?: Logger): Logger {
+  if (logger) {
+    return logger;
+  }
+  return process.env.NODE_ENV === 'production' ? silentLogger : createConsoleLogger();
+}
+
+/**
+ * Campos estructurados para un error, sea un Error o el cuerpo JSON que lanza el SDK
+ */
+export function errorFields(error: unknown): LogFields {
+  if (error instanceof Error) {
+    return { error: error.message, error_name: error.name };
+  }
+
+  if (error && typeof error === 'object') {
+    const { message, error: code, status, cause } = error as Record<string, any>;
+    return { error: message || code || 'Unknown error', error_code: code, status, cause };
+  }
+
+  return { error: String(error) };
+}
@@ -0,0 +1,89 @@
+// logging/redact.ts
+
+import { WebhookLogData } from '../types/index.js';
+
+export const REDACTED = '[REDACTED]';
+
+// Cabeceras que nunca deberían persistirse en claro
+export const DEFAULT_SENSITIVE_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'x-signature',
+];
+
+export function redactHeaders(headers: Record<string, string>, sensitiveHeaders: string[]): Record<string, string> {
+  const sensitive = new Set(sensitiveHeaders.map(header => header.toLowerCase()));
+  const redacted: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(headers)) {
+    redacted[key] = sensitive.has(key.toLowerCase()) ? REDACTED : value;
+  }
+
+  return redacted;
+}
+
+/**
+ * Enmascara un email conservando la primera letra y el dominio: j***@mail.com
+ */
+export function maskEmail(email: string): string {
+  const [user, domain] = email.split('@');
+  if (!domain) {
+    return REDACTED;
+  }
+  return `${user.charAt(0)}***@${domain}`;
+}
+
+// Claves con datos del pagador en pagos, suscripciones y envíos de MercadoPago
+const EMAIL_KEYS = ['email', 'payer_email', 'customer_email'];
+const NAME_KEYS = ['name', 'first_name', 'last_name', 'surname', 'customer_name'];
+const CONTACT_KEYS = ['phone', 'address', 'receiver_address'];
+
+/**
+ * Enmascara recursivamente los datos del pagador: emails, nombres, número de documento,
+ * teléfono y direcciones. El resto de la estructura se conserva.
+ */
+export function redactPayerData<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => redactPayerData(item)) as unknown as T;
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const redacted: Record<string, any> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (field === null || field === undefined) {
+      redacted[key] = field;
+    } else if (EMAIL_KEYS.includes(key) && typeof field === 'string') {
+      redacted[key] = maskEmail(field);
+    } else if (NAME_KEYS.includes(key) && typeof field === 'string') {
+      redacted[key] = REDACTED;
+    } else if (CONTACT_KEYS.includes(key)) {
+      redacted[key] = REDACTED;
+    } else if (key === 'identification' && typeof field === 'object') {
+      // El tipo de documento no identifica a la persona
+      redacted[key] = { ...field, number: field.number !== undefined ? REDACTED : undefined };
+    } else {
+      redacted[key] = redactPayerData(field);
+    }
+  }
+  return redacted as T;
+}
+
+/**
+ * Aplica la redacción configurada a los datos de log de un webhook
+ */
+export function redactWebhookLog(
+  logData: WebhookLogData,
+  options: { sensitiveHeaders: string[]; payerData: boolean }
+): WebhookLogData {
+  return {
+    ...logData,
+    headers_received: redactHeaders(logData.headers_received, options.sensitiveHeaders),
+    payer_email: options.payerData && logData.payer_email ? maskEmail(logData.payer_email) : logData.payer_email,
+    raw_data: options.payerData ? redactPayerData(logData.raw_data) : logData.raw_data,
+  };
+}
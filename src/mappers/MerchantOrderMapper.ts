@@ -0,0 +1,61 @@
+// mappers/MerchantOrderMapper.ts
+
+import { MerchantOrderInfo, MerchantOrderPaymentState } from '../types/index.js';
+import { DEFAULT_CURRENCY, fromMinorUnits, isSupportedCurrency, toMinorUnits } from '../utils/currency.js';
+
+export class MerchantOrderMapper {
+  /**
+   * Convierte una merchant order cruda del SDK a MerchantOrderInfo,
+   * agregando sus pagos y calculando el estado de cobro contra el total de la orden
+   */
+  static toMerchantOrderInfo(merchantOrder: any): MerchantOrderInfo {
+    const payments: any[] = merchantOrder.payments || [];
+    const currencyId = merchantOrder.items?.[0]?.currency_id || payments[0]?.currency_id || null;
+    const currency = isSupportedCurrency(currencyId) ? currencyId : DEFAULT_CURRENCY;
+
+    // Total a cobrar: items + envío
+    const totalMinor =
+      toMinorUnits(merchantOrder.total_amount || 0, currency) +
+      toMinorUnits(merchantOrder.shipping_cost || 0, currency);
+
+    // Solo los pagos aprobados cuentan como cobrados, descontando lo reembolsado.
+    // Se usa transaction_amount: total_paid_amount incluye los intereses de las cuotas
+    let paidMinor = 0;
+    let refundedMinor = 0;
+    for (const payment of payments) {
+      if (payment.status !== 'approved') continue;
+      paidMinor += toMinorUnits(payment.transaction_amount ?? 0, currency);
+      refundedMinor += toMinorUnits(payment.amount_refunded || 0, currency);
+    }
+    const netPaidMinor = paidMinor - refundedMinor;
+
+    return {
+      id: String(merchantOrder.id),
+      preference_id: merchantOrder.preference_id || null,
+      external_reference: merchantOrder.external_reference || null,
+      status: merchantOrder.status || 'unknown',
+      order_status: merchantOrder.order_status || null,
+      currency_id: currencyId,
+      total_amount: fromMinorUnits(totalMinor, currency),
+      paid_amount: fromMinorUnits(paidMinor, currency),
+      refunded_amount: fromMinorUnits(refundedMinor, currency),
+      balance: fromMinorUnits(totalMinor - netPaidMinor, currency),
+      payment_state: this.resolvePaymentState(netPaidMinor, totalMinor),
+      payments: payments.map(payment => ({
+        id: String(payment.id),
+        status: payment.status || 'unknown',
+        transaction_amount: payment.transaction_amount || 0,
+        total_paid_amount: payment.total_paid_amount ?? payment.transaction_amount ?? 0,
+        amount_refunded: payment.amount_refunded || 0,
+        date_approved: payment.date_approved || null,
+      })),
+    };
+  }
+
+  private static resolvePaymentState(netPaidMinor: number, totalMinor: number): MerchantOrderPaymentState {
+    if (netPaidMinor <= 0) return 'unpaid';
+    if (netPaidMinor < totalMinor) return 'partially_paid';
+    if (netPaidMinor === totalMinor) return 'paid';
+    return 'overpaid';
+  }
+}
@@ -0,0 +1,133 @@
+// mappers/PaymentMapper.ts
+
+import { PaymentFeeBreakdown, PaymentResultWeebhook, PaymentShippingInfo } from '../types/index.js';
+import { DEFAULT_CURRENCY, fromMinorUnits, isSupportedCurrency, toMinorUnits } from '../utils/currency.js';
+
+// type de fee_details -> campo de PaymentFeeBreakdown
+const FEE_TYPES: Record<string, 'marketplace_fee' | 'mercadopago_fee' | 'financing_fee' | 'shipping_fee'> = {
+  application_fee: 'marketplace_fee',
+  mercadopago_fee: 'mercadopago_fee',
+  financing_fee: 'financing_fee',
+  shipping_fee: 'shipping_fee',
+};
+
+export class PaymentMapper {
+  /**
+   * Convierte un pago crudo del SDK de MercadoPago al formato PaymentResultWeebhook
+   */
+  static toPaymentResult(payment: any): PaymentResultWeebhook {
+    return {
+      id: String(payment.id),
+      status: payment.status,
+      status_detail: payment.status_detail,
+      payment_method_id: payment.payment_method_id,
+      payment_type_id: payment.payment_type_id,
+      transaction_amount: payment.transaction_amount,
+      currency_id: payment.currency_id,
+      date_created: payment.date_created,
+      date_approved: payment.date_approved || undefined,
+      external_reference: payment.external_reference || undefined,
+      description: payment.description || undefined,
+      payer: payment.payer
+        ? {
+            id: payment.payer.id !== undefined && payment.payer.id !== null ? String(payment.payer.id) : undefined,
+            email: payment.payer.email || undefined,
+            type: payment.payer.type || undefined,
+            identification: payment.payer.identification?.type
+              ? {
+                  type: payment.payer.identification.type,
+                  number: payment.payer.identification.number,
+                }
+              : undefined,
+          }
+        : undefined,
+      metadata: payment.metadata,
+      shipping: this.toShippingInfo(payment) || undefined,
+      fees: this.toFeeBreakdown(payment) || undefined,
+      collector_id: payment.collector_id !== undefined ? Number(payment.collector_id) : undefined,
+      operation_type: payment.operation_type,
+      transaction_details: payment.transaction_details
+        ? {
+            net_received_amount: payment.transaction_details.net_received_amount,
+            total_paid_amount: payment.transaction_details.total_paid_amount,
+            overpaid_amount: payment.transaction_details.overpaid_amount,
+            installment_amount: payment.transaction_details.installment_amount,
+          }
+        : undefined,
+      fee_details: payment.fee_details,
+      charges_details: payment.charges_details,
+      point_of_interaction: payment.point_of_interaction,
+    };
+  }
+
+  /**
+   * Envío elegido en el checkout: el costo cobrado viene en shipping_amount, la dirección en
+   * additional_info.shipments y el modo en la metadata que agrega MercadoPagoBuilder.
+   * Devuelve null si el pago no tiene envío.
+   */
+  static toShippingInfo(payment: any): PaymentShippingInfo | null {
+    const metadata = payment?.metadata || {};
+    const receiverAddress = payment?.additional_info?.shipments?.receiver_address;
+    const hasShipping = Boolean(metadata.shipping_mode || payment?.shipping_amount || receiverAddress);
+
+    if (!hasShipping) {
+      return null;
+    }
+
+    return {
+      mode: metadata.shipping_mode === 'custom' || metadata.shipping_mode === 'me2' ? metadata.shipping_mode : null,
+      cost: Number(payment.shipping_amount ?? metadata.shipping_cost ?? 0),
+      free_shipping: metadata.free_shipping === true,
+      receiver_address: receiverAddress
+        ? {
+            zip_code: receiverAddress.zip_code,
+            street_name: receiverAddress.street_name,
+            street_number: receiverAddress.street_number !== undefined ? String(receiverAddress.street_number) : undefined,
+            floor: receiverAddress.floor || undefined,
+            apartment: receiverAddress.apartment || undefined,
+            city_name: receiverAddress.city_name || undefined,
+            state_name: receiverAddress.state_name || undefined,
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Agrupa fee_details por tipo. En pagos de marketplace application_fee es la comisión
+   * del marketplace y mercadopago_fee el costo de procesamiento que paga el vendedor.
+   * Devuelve null si el pago no informa costos.
+   */
+  static toFeeBreakdown(payment: any): PaymentFeeBreakdown | null {
+    const details: any[] = Array.isArray(payment?.fee_details) ? payment.fee_details : [];
+    if (details.length === 0) {
+      return null;
+    }
+
+    const currency = isSupportedCurrency(payment.currency_id) ? payment.currency_id : DEFAULT_CURRENCY;
+    const totals = { marketplace_fee: 0, mercadopago_fee: 0, financing_fee: 0, shipping_fee: 0, other_fees: 0 };
+    let collectorFees = 0;
+
+    for (const detail of details) {
+      const amount = toMinorUnits(Number(detail.amount) || 0, currency);
+      totals[FEE_TYPES[detail.type] || 'other_fees'] += amount;
+      if (detail.fee_payer === 'collector') {
+        collectorFees += amount;
+      }
+    }
+
+    return {
+      marketplace_fee: fromMinorUnits(totals.marketplace_fee, currency),
+      mercadopago_fee: fromMinorUnits(totals.mercadopago_fee, currency),
+      financing_fee: fromMinorUnits(totals.financing_fee, currency),
+      shipping_fee: fromMinorUnits(totals.shipping_fee, currency),
+      other_fees: fromMinorUnits(totals.other_fees, currency),
+      total_fees: fromMinorUnits(collectorFees, currency),
+      net_received_amount: payment.transaction_details?.net_received_amount ?? null,
+      fee_details: details.map(detail => ({
+        type: detail.type,
+        amount: Number(detail.amount) || 0,
+        fee_payer: detail.fee_payer,
+      })),
+    };
+  }
+}
@@ -0,0 +1,136 @@
+// mappers/SubscriptionMapper.ts
+
+import {
+  AutoRecurringOptions,
+  Currency,
+  Subscription,
+  SubscriptionAuthorizedPayment,
+  SubscriptionAutoRecurring,
+  SubscriptionPaymentMethodsAllowed,
+  SubscriptionPlan,
+} from '../types/index.js';
+import { roundAmount } from '../utils/currency.js';
+
+export class SubscriptionMapper {
+  /**
+   * Convierte AutoRecurringOptions al auto_recurring que espera la API (currency -> currency_id).
+   * Las fechas solo se envían en suscripciones sin plan.
+   */
+  static toApiAutoRecurring(options: Partial<AutoRecurringOptions>, currency: Currency): Record<string, any> {
+    return {
+      frequency: options.frequency,
+      frequency_type: options.frequency_type,
+      transaction_amount: options.transaction_amount !== undefined ? roundAmount(options.transaction_amount, currency) : undefined,
+      currency_id: currency,
+      repetitions: options.repetitions,
+      billing_day: options.billing_day,
+      billing_day_proportional: options.billing_day_proportional,
+      free_trial: options.free_trial,
+      start_date: options.start_date,
+      end_date: options.end_date,
+    };
+  }
+
+  // payment_methods_allowed usa arreglos de { id } como las exclusiones de la preferencia
+  static toApiPaymentMethodsAllowed(allowed: SubscriptionPaymentMethodsAllowed): Record<string, any> {
+    return {
+      payment_types: allowed.payment_types?.map(id => ({ id })),
+      payment_methods: allowed.payment_methods?.map(id => ({ id })),
+    };
+  }
+
+  /**
+   * Convierte un preapproval_plan crudo del SDK a SubscriptionPlan
+   */
+  static toSubscriptionPlan(plan: any): SubscriptionPlan {
+    const allowed = plan.payment_methods_allowed;
+
+    return {
+      id: String(plan.id),
+      reason: plan.reason || '',
+      status: plan.status || 'unknown',
+      init_point: plan.init_point || null,
+      back_url: plan.back_url || null,
+      auto_recurring: this.toAutoRecurring(plan.auto_recurring),
+      payment_methods_allowed: allowed
+        ? {
+            payment_types: allowed.payment_types?.map((type: any) => type.id).filter(Boolean),
+            payment_methods: allowed.payment_methods?.map((method: any) => method.id).filter(Boolean),
+          }
+        : undefined,
+      date_created: plan.date_created,
+      last_modified: plan.last_modified || null,
+    };
+  }
+
+  /**
+   * Convierte un preapproval crudo del SDK a Subscription
+   */
+  static toSubscription(preApproval: any): Subscription {
+    const summarized = preApproval.summarized || {};
+
+    return {
+      id: String(preApproval.id),
+      status: preApproval.status || 'unknown',
+      reason: preApproval.reason || null,
+      payer_id: preApproval.payer_id ?? null,
+      payer_email: preApproval.payer_email || null,
+      preapproval_plan_id: preApproval.preapproval_plan_id || null,
+      external_reference: preApproval.external_reference ? String(preApproval.external_reference) : null,
+      init_point: preApproval.init_point || null,
+      back_url: preApproval.back_url || null,
+      auto_recurring: this.toAutoRecurring(preApproval.auto_recurring),
+      next_payment_date: preApproval.next_payment_date || null,
+      charged_quantity: summarized.charged_quantity || 0,
+      charged_amount: summarized.charged_amount || 0,
+      last_charged_date: summarized.last_charged_date || null,
+      date_created: preApproval.date_created,
+      last_modified: preApproval.last_modified || null,
+    };
+  }
+
+  /**
+   * Convierte un authorized_payment (Invoice en el SDK) a SubscriptionAuthorizedPayment
+   */
+  static toAuthorizedPayment(invoice: any): SubscriptionAuthorizedPayment {
+    return {
+      id: String(invoice.id),
+      preapproval_id: String(invoice.preapproval_id),
+      status: invoice.status || 'unknown',
+      transaction_amount: invoice.transaction_amount || 0,
+      currency_id: invoice.currency_id || null,
+      reason: invoice.reason || null,
+      external_reference: invoice.external_reference ? String(invoice.external_reference) : null,
+      debit_date: invoice.debit_date || null,
+      retry_attempt: invoice.retry_attempt || 0,
+      payment: invoice.payment?.id
+        ? {
+            id: String(invoice.payment.id),
+            status: invoice.payment.status,
+            status_detail: invoice.payment.status_detail || null,
+          }
+        : null,
+      date_created: invoice.date_created,
+    };
+  }
+
+  private static toAutoRecurring(autoRecurring: any = {}): SubscriptionAutoRecurring {
+    // free_trial llega como objeto en los planes y como string o null en algunas suscripciones
+    const freeTrial = autoRecurring.free_trial && typeof autoRecurring.free_trial === 'object'
+      ? autoRecurring.free_trial
+      : null;
+
+    return {
+      frequency: autoRecurring.frequency,
+      frequency_type: autoRecurring.frequency_type,
+      transaction_amount: autoRecurring.transaction_amount ?? null,
+      currency_id: autoRecurring.currency_id || null,
+      repetitions: autoRecurring.repetitions,
+      billing_day: autoRecurring.billing_day,
+      billing_day_proportional: autoRecurring.billing_day_proportional,
+      free_trial: freeTrial,
+      start_date: autoRecurring.start_date,
+      end_date: autoRecurring.end_date,
+    };
+  }
+}
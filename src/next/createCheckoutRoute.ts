@@ -0,0 +1,96 @@
+// next/createCheckoutRoute.ts
+
+import { NextRequest, NextResponse } from 'next/server.js';
+import { MercadoPagoService } from '../MercadoPagoService.js';
+import { MarketplaceSeller, ValidationLocale } from '../types/index.js';
+import {
+  CorsOptions,
+  RouteHandler,
+  errorResponse,
+  methodNotAllowed,
+  readJsonBody,
+  resolveCorsHeaders,
+} from './responses.js';
+
+export interface CheckoutRouteOptions extends CorsOptions {
+  // Idioma de los errores de validación por request, p. ej. a partir de Accept-Language o de la ruta
+  resolveLocale?: (request: NextRequest) => ValidationLocale | undefined;
+  // Marketplace: vendedor del carrito (p. ej. por la sesión o por el body); su token nunca debe venir del navegador
+  resolveSeller?: (
+    request: NextRequest,
+    body: any
+  ) => Promise<MarketplaceSeller | null | undefined> | MarketplaceSeller | null | undefined;
+}
+
+/**
+ * Crea los handlers de una ruta del App Router que recibe un PaymentRequest
+ * y devuelve el PaymentResponse de processPayment.
+ *
+ * @example
+ * // app/api/checkout/route.ts
+ * export const { POST, OPTIONS } = createCheckoutRoute(service, { allowedOrigins: ['https://mitienda.com'] });
+ */
+export function createCheckoutRoute(
+  service: MercadoPagoService,
+  options: CheckoutRouteOptions = {}
+): { POST: RouteHandler; OPTIONS: RouteHandler } {
+  const methods = ['POST'];
+
+  const POST: RouteHandler = async (request: NextRequest) => {
+    const corsHeaders = resolveCorsHeaders(request, options, methods);
+    if (!corsHeaders) {
+      return errorResponse(403, 'origin_not_allowed', 'Origin not allowed');
+    }
+
+    if (request.method !== 'POST') {
+      return methodNotAllowed(methods, corsHeaders);
+    }
+
+    const parsed = await readJsonBody(request);
+    if (!parsed.ok) {
+      return errorResponse(400, 'invalid_json', 'Invalid JSON body', undefined, corsHeaders);
+    }
+
+    // JSON válido pero no un objeto (null, 42, []) no es un PaymentRequest
+    const { body } = parsed;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return errorResponse(400, 'invalid_body', 'Request body must be a JSON object', undefined, corsHeaders);
+    }
+
+    let seller: MarketplaceSeller | undefined;
+    try {
+      seller = (await options.resolveSeller?.(request, body)) || undefined;
+    } catch {
+      return errorResponse(500, 'seller_resolution_failed', 'Could not resolve the seller', undefined, corsHeaders);
+    }
+
+    const result = await service.processPayment(body, { locale: options.resolveLocale?.(request), seller });
+
+    if (!result.success) {
+      // 400 para datos inválidos, 503 si MercadoPago no está disponible (reintentable), 500 en otro caso
+      const info = result.error_info;
+      const isValidationError = info?.code === 'validation_error';
+      return errorResponse(
+        isValidationError ? 400 : info?.retryable ? 503 : 500,
+        info?.code || 'payment_error',
+        result.error || 'Error interno del servidor',
+        result.details,
+        corsHeaders,
+        info?.issues
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 200, headers: corsHeaders });
+  };
+
+  const OPTIONS: RouteHandler = async (request: NextRequest) => {
+    const corsHeaders = resolveCorsHeaders(request, options, methods);
+    if (!corsHeaders) {
+      return errorResponse(403, 'origin_not_allowed', 'Origin not allowed');
+    }
+
+    return new NextResponse(null, { status: 204, headers: { ...corsHeaders, Allow: 'POST, OPTIONS' } });
+  };
+
+  return { POST, OPTIONS };
+}
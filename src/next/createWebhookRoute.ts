@@ -0,0 +1,44 @@
+// next/createWebhookRoute.ts
+
+import { NextRequest, NextResponse } from 'next/server.js';
+import { MercadoPagoWebhookHandler } from '../webhooks/MercadoPagoWebhookHandler.js';
+import { RouteHandler, errorResponse, methodNotAllowed } from './responses.js';
+
+/**
+ * Crea el handler POST de la ruta de notificaciones de MercadoPago.
+ * El status de la respuesta es el de WebhookProcessResult, de modo que
+ * MercadoPago reintenta cuando el procesamiento falla.
+ *
+ * @example
+ * // app/api/webhooks/mercadopago/route.ts
+ * export const { POST } = createWebhookRoute(handler);
+ */
+export function createWebhookRoute(handler: MercadoPagoWebhookHandler): { POST: RouteHandler } {
+  const POST: RouteHandler = async (request: NextRequest) => {
+    if (request.method !== 'POST') {
+      return methodNotAllowed(['POST']);
+    }
+
+    const result = await handler.processWebhookRequest(request);
+
+    if (!result.success) {
+      return errorResponse(
+        result.status,
+        result.signature_error?.code || (result.status === 400 ? 'invalid_payload' : 'webhook_error'),
+        result.error || result.message
+      );
+    }
+
+    // No se devuelve el detalle del pago: MercadoPago solo necesita el status
+    return NextResponse.json(
+      {
+        success: true,
+        message: result.message,
+        duplicate: result.duplicate || false,
+      },
+      { status: result.status }
+    );
+  };
+
+  return { POST };
+}
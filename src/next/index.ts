@@ -0,0 +1,6 @@
+// next/index.ts
+
+export { createCheckoutRoute } from './createCheckoutRoute.js';
+export type { CheckoutRouteOptions } from './createCheckoutRoute.js';
+export { createWebhookRoute } from './createWebhookRoute.js';
+export type { RouteErrorBody, CorsOptions, RouteHandler } from './responses.js';
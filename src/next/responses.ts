@@ -0,0 +1,76 @@
+// next/responses.ts
+
+import { NextRequest, NextResponse } from 'next/server.js';
+import { ValidationIssue } from '../types/index.js';
+
+export interface RouteErrorBody {
+  success: false;
+  error: string;
+  code: string;
+  details?: string[];
+  issues?: ValidationIssue[]; // Código y ruta JSON de cada campo inválido
+}
+
+export interface CorsOptions {
+  // Orígenes permitidos; '*' acepta cualquiera. Sin definir no se agregan cabeceras CORS
+  allowedOrigins?: string[] | '*';
+}
+
+export type RouteHandler = (request: NextRequest) => Promise<NextResponse>;
+
+export function errorResponse(
+  status: number,
+  code: string,
+  error: string,
+  details?: string[],
+  headers?: HeadersInit,
+  issues?: ValidationIssue[]
+): NextResponse<RouteErrorBody> {
+  const body: RouteErrorBody = { success: false, error, code };
+  if (details && details.length > 0) {
+    body.details = details;
+  }
+  if (issues && issues.length > 0) {
+    body.issues = issues;
+  }
+  return NextResponse.json(body, { status, headers });
+}
+
+export function methodNotAllowed(allowed: string[], headers?: HeadersInit): NextResponse<RouteErrorBody> {
+  return errorResponse(405, 'method_not_allowed', 'Method not allowed', undefined, {
+    ...headers,
+    Allow: allowed.join(', '),
+  });
+}
+
+/**
+ * Cabeceras CORS para el origen de la petición, o null si el origen no está permitido.
+ * Las peticiones sin Origin (mismo origen, servidor a servidor) siempre se aceptan.
+ */
+export function resolveCorsHeaders(request: NextRequest, options: CorsOptions, methods: string[]): Record<string, string> | null {
+  const origin = request.headers.get('origin');
+  const { allowedOrigins } = options;
+
+  if (!allowedOrigins || !origin) {
+    return {};
+  }
+
+  if (allowedOrigins !== '*' && !allowedOrigins.includes(origin)) {
+    return null;
+  }
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigins === '*' ? '*' : origin,
+    'Access-Control-Allow-Methods': [...methods, 'OPTIONS'].join(', '),
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    Vary: 'Origin',
+  };
+}
+
+export async function readJsonBody(request: NextRequest): Promise<{ ok: true; body: unknown } | { ok: false }> {
+  try {
+    return { ok: true, body: await request.json() };
+  } catch {
+    return { ok: false };
+  }
+}
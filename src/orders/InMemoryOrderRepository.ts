@@ -0,0 +1,48 @@
+// orders/InMemoryOrderRepository.ts
+
+import { Order, OrderRepository, OrderStatus } from '../types/index.js';
+
+/**
+ * Implementación de referencia de OrderRepository, en memoria del proceso.
+ * Útil para desarrollo y tests; en producción se debe implementar sobre la base de datos.
+ */
+export class InMemoryOrderRepository implements OrderRepository {
+  private orders = new Map<string, Order>();
+
+  save(order: Order): void {
+    this.orders.set(order.id, { ...order });
+  }
+
+  findById(orderId: string): Order | null {
+    const order = this.orders.get(orderId);
+    return order ? { ...order } : null;
+  }
+
+  findByPreferenceId(preferenceId: string): Order | null {
+    return this.find(order => order.preference_id === preferenceId);
+  }
+
+  findByExternalReference(externalReference: string): Order | null {
+    return this.find(order => order.external_reference === externalReference);
+  }
+
+  updateStatus(orderId: string, status: OrderStatus): Order | null {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      return null;
+    }
+
+    const updated: Order = { ...order, status, updated_at: new Date().toISOString() };
+    this.orders.set(orderId, updated);
+    return { ...updated };
+  }
+
+  private find(predicate: (order: Order) => boolean): Order | null {
+    for (const order of this.orders.values()) {
+      if (predicate(order)) {
+        return { ...order };
+      }
+    }
+    return null;
+  }
+}
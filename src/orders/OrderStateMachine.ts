@@ -0,0 +1,96 @@
+// orders/OrderStateMachine.ts
+
+import { Order, OrderRepository, OrderStatus, OrderStatusUpdate } from '../types/index.js';
+
+// Reembolso o contracargo que llega antes que el webhook de aprobación (fuera de orden)
+const AFTER_APPROVAL: OrderStatus[] = ['partially_refunded', 'refunded', 'charged_back'];
+
+// Transiciones permitidas desde cada estado. Los estados sin salida son finales.
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['authorized', 'approved', 'rejected', 'expired', 'cancelled', ...AFTER_APPROVAL],
+  authorized: ['approved', 'cancelled', 'expired', ...AFTER_APPROVAL],
+  // El comprador puede reintentar con otro medio de pago sobre la misma preferencia
+  rejected: ['pending', 'authorized', 'approved', 'expired', 'cancelled', ...AFTER_APPROVAL],
+  approved: ['partially_refunded', 'refunded', 'charged_back'],
+  partially_refunded: ['partially_refunded', 'refunded', 'charged_back'],
+  refunded: [],
+  charged_back: [],
+  expired: [],
+  cancelled: [],
+};
+
+export class InvalidOrderTransitionError extends Error {
+  readonly from: OrderStatus;
+  readonly to: OrderStatus;
+
+  constructor(from: OrderStatus, to: OrderStatus) {
+    super(`Invalid order status transition from ${from} to ${to}`);
+    this.name = 'InvalidOrderTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export class OrderStateMachine {
+  /**
+   * Indica si una orden puede pasar de `from` a `to`.
+   * Repetir el estado actual se considera válido (webhooks reenviados).
+   */
+  static canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    if (from === to) {
+      return true;
+    }
+    return TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  static assertTransition(from: OrderStatus, to: OrderStatus): void {
+    if (!this.canTransition(from, to)) {
+      throw new InvalidOrderTransitionError(from, to);
+    }
+  }
+
+  static isFinal(status: OrderStatus): boolean {
+    return TRANSITIONS[status]?.length === 0;
+  }
+
+  /**
+   * Aplica un nuevo estado a la orden si la transición es válida.
+   * Las transiciones ilegales (p. ej. webhooks fuera de orden) no se guardan y se
+   * informan con applied: false; los errores del repositorio se propagan.
+   */
+  static async applyStatus(repository: OrderRepository, order: Order, status: OrderStatus): Promise<OrderStatusUpdate> {
+    const update: OrderStatusUpdate = {
+      order_id: order.id,
+      previous_status: order.status,
+      status,
+      applied: false,
+    };
+
+    if (!this.canTransition(order.status, status)) {
+      return { ...update, status: order.status, error: new InvalidOrderTransitionError(order.status, status).message };
+    }
+
+    if (order.status !== status) {
+      await repository.updateStatus(order.id, status);
+    }
+
+    return { ...update, applied: true };
+  }
+
+  /**
+   * Traduce el mapped_status de un webhook de pago al estado de la orden
+   */
+  static fromPaymentStatus(mappedStatus: string | null): OrderStatus | null {
+    const statusMapping: Record<string, OrderStatus> = {
+      'pending': 'pending',
+      'authorized': 'authorized',
+      'approved': 'approved',
+      'rejected': 'rejected',
+      'cancelled': 'cancelled',
+      'refunded': 'refunded',
+      'chargeback': 'charged_back'
+    };
+
+    return mappedStatus ? statusMapping[mappedStatus] || null : null;
+  }
+}
@@ -0,0 +1,207 @@
+// pricing/TotalsCalculator.ts
+
+import {
+  AppliedDiscount,
+  Currency,
+  Discount,
+  PaymentRequest,
+  TaxOptions,
+  TotalsBreakdown,
+  TotalsLine,
+} from '../types/index.js';
+import { fromMinorUnits, lineTotalMinorUnits, toMinorUnits } from '../utils/currency.js';
+import { knownShippingCost } from '../utils/shipping.js';
+
+// Los porcentajes se llevan a puntos básicos (12.5% = 1250) para operar solo con enteros
+const BASIS_POINTS = 10000;
+
+export interface TotalsOptions {
+  currency: Currency;
+  tax?: TaxOptions;
+  coupon?: Discount | null; // Ya resuelto; se aplica como último descuento del carrito
+}
+
+interface LineState {
+  subtotal: number;
+  net: number;
+  discount: number;
+}
+
+/**
+ * Motor único de totales del carrito: descuentos de item, descuentos del carrito,
+ * cupón, impuestos y envío. Todo se calcula en unidades mínimas con redondeo half-up:
+ *
+ * 1. Subtotal de cada línea (precio de lista * cantidad).
+ * 2. Descuento del item sobre su subtotal.
+ * 3. Descuentos del carrito en orden (y el cupón al final), cada uno sobre lo que queda;
+ *    el monto se reparte entre las líneas en proporción a su neto (mayor resto).
+ * 4. Impuesto por línea sobre el neto: se suma si es exclusivo, se desglosa si es inclusivo.
+ * 5. Costo de envío conocido, sin impuestos.
+ */
+export class TotalsCalculator {
+  static calculate(
+    request: Pick<PaymentRequest, 'items' | 'discounts' | 'shipping'>,
+    options: TotalsOptions
+  ): TotalsBreakdown {
+    const { currency, tax } = options;
+    const applied: AppliedDiscount[] = [];
+
+    const states: LineState[] = request.items.map((item, index) => {
+      const subtotal = lineTotalMinorUnits(item.unit_price, item.quantity, currency);
+      const discount = item.discount ? this.discountAmount(item.discount, subtotal, currency) : 0;
+      if (item.discount) {
+        applied.push({ ...item.discount, scope: 'item', item_index: index, amount: fromMinorUnits(discount, currency) });
+      }
+      return { subtotal, net: subtotal - discount, discount };
+    });
+
+    const cartDiscounts = [...(request.discounts || []), ...(options.coupon ? [options.coupon] : [])];
+    for (const discount of cartDiscounts) {
+      const base = states.reduce((sum, line) => sum + line.net, 0);
+      const amount = this.discountAmount(discount, base, currency);
+      this.allocate(amount, states.map(line => line.net)).forEach((share, index) => {
+        states[index].net -= share;
+        states[index].discount += share;
+      });
+      applied.push({ ...discount, scope: 'cart', amount: fromMinorUnits(amount, currency) });
+    }
+
+    const inclusive = tax?.inclusive === true;
+    const lines: TotalsLine[] = [];
+    let subtotal = 0;
+    let discountTotal = 0;
+    let taxTotal = 0;
+    let linesTotal = 0;
+
+    request.items.forEach((item, index) => {
+      const state = states[index];
+      const taxRate = item.tax_rate ?? tax?.rate ?? 0;
+      const taxAmount = this.taxAmount(state.net, taxRate, inclusive);
+      const total = inclusive ? state.net : state.net + taxAmount;
+
+      subtotal += state.subtotal;
+      discountTotal += state.discount;
+      taxTotal += taxAmount;
+      linesTotal += total;
+
+      lines.push({
+        index,
+        id: item.id,
+        title: item.title,
+        description: item.description,
+        quantity: item.quantity,
+        unit_price: fromMinorUnits(toMinorUnits(item.unit_price, currency), currency),
+        subtotal: fromMinorUnits(state.subtotal, currency),
+        discount_amount: fromMinorUnits(state.discount, currency),
+        tax_rate: taxRate,
+        tax_amount: fromMinorUnits(taxAmount, currency),
+        total: fromMinorUnits(total, currency),
+      });
+    });
+
+    const shippingCost = request.shipping ? knownShippingCost(request.shipping, currency) ?? 0 : 0;
+    const shipping = toMinorUnits(shippingCost, currency);
+
+    return {
+      currency,
+      lines,
+      subtotal: fromMinorUnits(subtotal, currency),
+      discount_total: fromMinorUnits(discountTotal, currency),
+      tax_total: fromMinorUnits(taxTotal, currency),
+      tax_inclusive: inclusive,
+      shipping_cost: fromMinorUnits(shipping, currency),
+      total: fromMinorUnits(linesTotal + shipping, currency),
+      discounts: applied,
+    };
+  }
+
+  /**
+   * Precios unitarios para enviar una línea a MercadoPago, que solo acepta unit_price * quantity.
+   * Si el total no se divide exacto por la cantidad se parte en dos grupos que difieren
+   * en una unidad mínima: 100.00 / 3 -> 1 x 33.34 + 2 x 33.33.
+   * Cuando el total es menor a una unidad mínima por unidad se envía como una sola unidad.
+   */
+  static splitUnitPrices(line: Pick<TotalsLine, 'quantity' | 'total'>, currency: Currency): Array<{ quantity: number; unit_price: number }> {
+    const total = toMinorUnits(line.total, currency);
+    if (total <= 0) {
+      return [];
+    }
+
+    const unit = Math.floor(total / line.quantity);
+    if (unit === 0) {
+      return [{ quantity: 1, unit_price: fromMinorUnits(total, currency) }];
+    }
+
+    const remainder = total - unit * line.quantity;
+    if (remainder === 0) {
+      return [{ quantity: line.quantity, unit_price: fromMinorUnits(unit, currency) }];
+    }
+
+    return [
+      { quantity: remainder, unit_price: fromMinorUnits(unit + 1, currency) },
+      { quantity: line.quantity - remainder, unit_price: fromMinorUnits(unit, currency) },
+    ];
+  }
+
+  // Porcentaje de un monto con el mismo redondeo half-up que los descuentos (p. ej. comisiones)
+  static percentageOf(amount: number, percentage: number, currency: Currency): number {
+    const minor = this.divideHalfUp(toMinorUnits(amount, currency) * this.toBasisPoints(percentage), BASIS_POINTS);
+    return fromMinorUnits(minor, currency);
+  }
+
+  // Monto del descuento en unidades mínimas; nunca supera la base
+  private static discountAmount(discount: Discount, base: number, currency: Currency): number {
+    const amount = discount.type === 'percentage'
+      ? this.divideHalfUp(base * this.toBasisPoints(discount.value), BASIS_POINTS)
+      : toMinorUnits(discount.value, currency);
+    return Math.min(Math.max(amount, 0), base);
+  }
+
+  private static taxAmount(net: number, rate: number, inclusive: boolean): number {
+    const basisPoints = this.toBasisPoints(rate);
+    if (basisPoints === 0) {
+      return 0;
+    }
+    // Inclusivo: el neto ya contiene el impuesto, se separa la base imponible
+    return inclusive
+      ? net - this.divideHalfUp(net * BASIS_POINTS, BASIS_POINTS + basisPoints)
+      : this.divideHalfUp(net * basisPoints, BASIS_POINTS);
+  }
+
+  /**
+   * Reparte `amount` en proporción a `weights` con el método del mayor resto,
+   * de modo que las partes sumen exactamente `amount`. Empates: la primera línea.
+   */
+  private static allocate(amount: number, weights: number[]): number[] {
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (amount === 0 || totalWeight === 0) {
+      return weights.map(() => 0);
+    }
+
+    const shares = weights.map(weight => Math.floor((amount * weight) / totalWeight));
+    let remaining = amount - shares.reduce((sum, share) => sum + share, 0);
+
+    const byRemainder = weights
+      .map((weight, index) => ({ index, remainder: (amount * weight) % totalWeight }))
+      .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+    for (const { index } of byRemainder) {
+      if (remaining === 0) {
+        break;
+      }
+      shares[index] += 1;
+      remaining -= 1;
+    }
+
+    return shares;
+  }
+
+  private static toBasisPoints(percentage: number): number {
+    return Math.round(Number((percentage * 100).toPrecision(15)));
+  }
+
+  // División entera redondeando la mitad hacia arriba (operandos no negativos)
+  private static divideHalfUp(numerator: number, denominator: number): number {
+    return Math.floor((2 * numerator + denominator) / (2 * denominator));
+  }
+}
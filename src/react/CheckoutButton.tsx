@@ -0,0 +1,67 @@
+'use client';
+// react/CheckoutButton.tsx
+
+import type { ButtonHTMLAttributes, ReactNode } from 'react';
+import { PaymentRequest } from '../types/index.js';
+import { useMercadoPagoCheckout, UseMercadoPagoCheckoutOptions } from './useMercadoPagoCheckout.js';
+
+export interface CheckoutButtonProps
+  extends UseMercadoPagoCheckoutOptions,
+    Omit<ButtonHTMLAttributes<HTMLButtonElement>, 'onClick' | 'onError'> {
+  request: PaymentRequest;
+  loadingText?: ReactNode;
+  showErrors?: boolean; // Mostrar error y details debajo del botón, true por defecto
+}
+
+/**
+ * Botón que crea la preferencia a través de la ruta de checkout y redirige a MercadoPago
+ */
+export function CheckoutButton({
+  request,
+  endpoint,
+  redirect,
+  headers,
+  onSuccess,
+  onError,
+  loadingText = 'Procesando...',
+  showErrors = true,
+  children = 'Pagar con MercadoPago',
+  disabled,
+  ...buttonProps
+}: CheckoutButtonProps) {
+  const { checkout, loading, error, details } = useMercadoPagoCheckout({
+    endpoint,
+    redirect,
+    headers,
+    onSuccess,
+    onError,
+  });
+
+  return (
+    <>
+      <button
+        type="button"
+        {...buttonProps}
+        disabled={disabled || loading}
+        aria-busy={loading}
+        onClick={() => {
+          void checkout(request);
+        }}
+      >
+        {loading ? loadingText : children}
+      </button>
+      {showErrors && error && (
+        <div role="alert">
+          <p>{error}</p>
+          {details.length > 0 && (
+            <ul>
+              {details.map(detail => (
+                <li key={detail}>{detail}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,8 @@
+// react/index.ts
+
+export { useMercadoPagoCheckout } from './useMercadoPagoCheckout.js';
+export type { UseMercadoPagoCheckoutOptions, UseMercadoPagoCheckoutResult } from './useMercadoPagoCheckout.js';
+export { CheckoutButton } from './CheckoutButton.js';
+export type { CheckoutButtonProps } from './CheckoutButton.js';
+export { parseCheckoutReturn } from './parseCheckoutReturn.js';
+export type { CheckoutReturnParams, CheckoutReturnStatus } from './parseCheckoutReturn.js';
@@ -0,0 +1,71 @@
+// react/parseCheckoutReturn.ts
+
+// Estados con los que MercadoPago redirige a las back_urls
+export type CheckoutReturnStatus = 'approved' | 'pending' | 'in_process' | 'rejected' | 'null' | 'unknown';
+
+export interface CheckoutReturnParams {
+  status: CheckoutReturnStatus;
+  payment_id: string | null;
+  external_reference: string | null;
+  merchant_order_id: string | null;
+  preference_id: string | null;
+  payment_type: string | null;
+  is_approved: boolean;
+  is_pending: boolean;
+}
+
+type SearchParamsInput =
+  | string
+  | URLSearchParams
+  | Record<string, string | string[] | undefined>;
+
+const KNOWN_STATUSES: CheckoutReturnStatus[] = ['approved', 'pending', 'in_process', 'rejected', 'null'];
+
+/**
+ * Lee los parámetros con los que MercadoPago redirige a las back_urls.
+ * Acepta el query string, un URLSearchParams o el objeto `searchParams` de una página de Next.js.
+ *
+ * @example
+ * // app/payment/success/page.tsx
+ * const { status, payment_id, external_reference } = parseCheckoutReturn(searchParams);
+ */
+export function parseCheckoutReturn(input: SearchParamsInput): CheckoutReturnParams {
+  const params = toURLSearchParams(input);
+  const read = (key: string): string | null => {
+    const value = params.get(key);
+    return value && value !== 'null' ? value : null;
+  };
+
+  // `status` y `collection_status` son equivalentes; `collection_id` es el id del pago
+  const rawStatus = params.get('status') || params.get('collection_status') || '';
+  const status = KNOWN_STATUSES.includes(rawStatus as CheckoutReturnStatus)
+    ? (rawStatus as CheckoutReturnStatus)
+    : 'unknown';
+
+  return {
+    status,
+    payment_id: read('payment_id') || read('collection_id'),
+    external_reference: read('external_reference'),
+    merchant_order_id: read('merchant_order_id'),
+    preference_id: read('preference_id'),
+    payment_type: read('payment_type'),
+    is_approved: status === 'approved',
+    is_pending: status === 'pending' || status === 'in_process',
+  };
+}
+
+function toURLSearchParams(input: SearchParamsInput): URLSearchParams {
+  if (typeof input === 'string' || input instanceof URLSearchParams) {
+    return new URLSearchParams(input);
+  }
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(input)) {
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value[0]);
+    } else if (value !== undefined) {
+      params.set(key, value);
+    }
+  }
+  return params;
+}
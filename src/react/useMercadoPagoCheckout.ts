@@ -0,0 +1,97 @@
+'use client';
+// react/useMercadoPagoCheckout.ts
+
+import { useCallback, useRef, useState } from 'react';
+import { PaymentRequest, PaymentResponse, ValidationIssue } from '../types/index.js';
+
+export interface UseMercadoPagoCheckoutOptions {
+  endpoint?: string; // Ruta creada con createCheckoutRoute, '/api/checkout' por defecto
+  redirect?: boolean; // Redirigir a payment_url al crear la preferencia, true por defecto
+  headers?: Record<string, string>;
+  onSuccess?: (response: PaymentResponse) => void;
+  onError?: (error: string, details: string[]) => void;
+}
+
+export interface UseMercadoPagoCheckoutResult {
+  checkout: (request: PaymentRequest) => Promise<PaymentResponse | null>;
+  loading: boolean;
+  error: string | null;
+  details: string[]; // Errores de validación devueltos por el servidor
+  issues: ValidationIssue[]; // Los mismos errores con código y ruta del campo (p. ej. 'items[0].title')
+  data: PaymentResponse | null;
+  reset: () => void;
+}
+
+/**
+ * Envía un PaymentRequest a la ruta de checkout y redirige al comprador a MercadoPago
+ */
+export function useMercadoPagoCheckout(options: UseMercadoPagoCheckoutOptions = {}): UseMercadoPagoCheckoutResult {
+  const { endpoint = '/api/checkout', redirect = true, headers, onSuccess, onError } = options;
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [details, setDetails] = useState<string[]>([]);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [data, setData] = useState<PaymentResponse | null>(null);
+  const inFlight = useRef(false);
+
+  const reset = useCallback(() => {
+    setError(null);
+    setDetails([]);
+    setIssues([]);
+    setData(null);
+  }, []);
+
+  const checkout = useCallback(async (request: PaymentRequest): Promise<PaymentResponse | null> => {
+    // Evita crear dos preferencias por doble clic
+    if (inFlight.current) {
+      return null;
+    }
+
+    inFlight.current = true;
+    setLoading(true);
+    setError(null);
+    setDetails([]);
+    setIssues([]);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(request),
+      });
+
+      const body = await response.json().catch(() => null);
+
+      if (!response.ok || !body?.success || !body.data) {
+        const message: string = body?.error || `Error ${response.status} al iniciar el pago`;
+        const errorDetails: string[] = Array.isArray(body?.details) ? body.details : [];
+        setError(message);
+        setDetails(errorDetails);
+        setIssues(Array.isArray(body?.issues) ? body.issues : []);
+        onError?.(message, errorDetails);
+        return null;
+      }
+
+      const paymentResponse: PaymentResponse = body.data;
+      setData(paymentResponse);
+      onSuccess?.(paymentResponse);
+
+      if (redirect && typeof window !== 'undefined') {
+        window.location.assign(paymentResponse.payment_url);
+      }
+
+      return paymentResponse;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Error de red al iniciar el pago';
+      setError(message);
+      onError?.(message, []);
+      return null;
+    } finally {
+      inFlight.current = false;
+      setLoading(false);
+    }
+  }, [endpoint, redirect, headers, onSuccess, onError]);
+
+  return { checkout, loading, error, details, issues, data, reset };
+}
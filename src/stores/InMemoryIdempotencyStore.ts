@@ -0,0 +1,23 @@
+// stores/InMemoryIdempotencyStore.ts
+
+import { IdempotencyStore, PaymentResponse } from '../types/index.js';
+import { InMemoryTtlStore } from './InMemoryTtlStore.js';
+
+/**
+ * Implementación por defecto de IdempotencyStore, en memoria del proceso
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private store: InMemoryTtlStore<PaymentResponse>;
+
+  constructor(maxEntries?: number) {
+    this.store = new InMemoryTtlStore<PaymentResponse>(maxEntries);
+  }
+
+  get(key: string): PaymentResponse | null {
+    return this.store.get(key);
+  }
+
+  set(key: string, response: PaymentResponse, ttlMs: number): void {
+    this.store.set(key, response, ttlMs);
+  }
+}
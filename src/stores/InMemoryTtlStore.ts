@@ -0,0 +1,68 @@
+// stores/InMemoryTtlStore.ts
+
+interface TtlEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Almacenamiento en memoria con expiración por entrada.
+ * Pensado para desarrollo o instancias únicas; en producción con varias
+ * instancias conviene una implementación respaldada por Redis o base de datos.
+ */
+export class InMemoryTtlStore<T> {
+  private entries = new Map<string, TtlEntry<T>>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 10000) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): T | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  set(key: string, value: T, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    this.evict();
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  // Elimina entradas vencidas y, si aún se supera el límite, las más antiguas
+  private evict(): void {
+    if (this.entries.size <= this.maxEntries) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+
+    const overflow = this.entries.size - this.maxEntries;
+    if (overflow > 0) {
+      const oldestKeys = Array.from(this.entries.keys()).slice(0, overflow);
+      oldestKeys.forEach(key => this.entries.delete(key));
+    }
+  }
+}
@@ -0,0 +1,39 @@
+// stores/InMemoryWebhookDedupStore.ts
+
+import { WebhookDedupStore, WebhookProcessResult } from '../types/index.js';
+import { InMemoryTtlStore } from './InMemoryTtlStore.js';
+
+/**
+ * Implementación por defecto de WebhookDedupStore, en memoria del proceso
+ */
+export class InMemoryWebhookDedupStore implements WebhookDedupStore {
+  private store: InMemoryTtlStore<WebhookProcessResult>;
+  private claims: InMemoryTtlStore<true>;
+
+  constructor(maxEntries?: number) {
+    this.store = new InMemoryTtlStore<WebhookProcessResult>(maxEntries);
+    this.claims = new InMemoryTtlStore<true>(maxEntries);
+  }
+
+  get(key: string): WebhookProcessResult | null {
+    return this.store.get(key);
+  }
+
+  set(key: string, result: WebhookProcessResult, ttlMs: number): void {
+    this.store.set(key, result, ttlMs);
+    this.claims.delete(key);
+  }
+
+  // Comprobación y escritura síncronas: atómicas dentro del proceso
+  claim(key: string, ttlMs: number): boolean {
+    if (this.store.get(key) || this.claims.get(key)) {
+      return false;
+    }
+    this.claims.set(key, true, ttlMs);
+    return true;
+  }
+
+  release(key: string): void {
+    this.claims.delete(key);
+  }
+}
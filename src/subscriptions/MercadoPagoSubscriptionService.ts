@@ -0,0 +1,351 @@
+// subscriptions/MercadoPagoSubscriptionService.ts
+
+import {
+  Currency,
+  Logger,
+  MercadoPagoConfig,
+  PaymentError,
+  SubscriptionPlanRequest,
+  SubscriptionPlanResponse,
+  SubscriptionPlanUpdate,
+  SubscriptionRequest,
+  SubscriptionResponse,
+  SubscriptionStatus,
+  SubscriptionUpdate,
+  ValidationOptions,
+} from '../types/index.js';
+import { MercadoPagoApiClient } from '../api/MercadoPagoApiClient.js';
+import { HttpPolicy, resolveHttpPolicyOptions } from '../http/HttpPolicy.js';
+import { MercadoPagoApiError, PaymentLibError, ValidationError } from '../errors/PaymentErrors.js';
+import { SubscriptionMapper } from '../mappers/SubscriptionMapper.js';
+import { PaymentValidator } from '../validators/PaymentValidator.js';
+import { errorFields, resolveLogger } from '../logging/Logger.js';
+import { DEFAULT_CURRENCY, isSupportedCurrency, roundAmount } from '../utils/currency.js';
+
+// Estados desde los que se permite cada cambio; cancelled es terminal
+const SUBSCRIPTION_TRANSITIONS: Record<Exclude<SubscriptionStatus, 'pending'>, SubscriptionStatus[]> = {
+  paused: ['authorized'],
+  authorized: ['paused'],
+  cancelled: ['pending', 'authorized', 'paused'],
+};
+
+/**
+ * Cobros recurrentes con planes (preapproval_plan) y suscripciones (preapproval).
+ * Se obtiene desde MercadoPagoService.subscriptions, que comparte la HttpPolicy del servicio.
+ */
+export class MercadoPagoSubscriptionService {
+  private config: MercadoPagoConfig;
+  private logger: Logger;
+  private apiClient: MercadoPagoApiClient;
+  private validationOptions: ValidationOptions;
+
+  constructor(config: MercadoPagoConfig, apiClient?: MercadoPagoApiClient) {
+    this.config = config;
+    this.logger = resolveLogger(config.logger);
+    this.validationOptions = config.validation || {};
+    this.apiClient = apiClient || new MercadoPagoApiClient({
+      accessToken: config.accessToken,
+      timeout: config.timeout,
+      policy: new HttpPolicy(resolveHttpPolicyOptions(config), this.logger),
+    });
+  }
+
+  // ============= PLANES =============
+
+  /**
+   * Crea un plan; su init_point permite que los compradores se suscriban directamente
+   */
+  async createPlan(request: SubscriptionPlanRequest, idempotencyKey?: string): Promise<SubscriptionPlanResponse> {
+    const validation = PaymentValidator.validateSubscriptionPlan(request, this.defaultCurrency(), this.validationOptions);
+    if (!validation.isValid) {
+      return { success: false, error: ValidationError.fromResult(validation) };
+    }
+
+    try {
+      const currency = request.auto_recurring.currency || this.defaultCurrency();
+      const body = this.buildPlanBody({ ...request, back_url: request.back_url || this.defaultBackUrl() }, currency);
+      const response = await this.apiClient.createPreApprovalPlan(body, idempotencyKey);
+      if (!response?.id) {
+        throw new Error('Failed to create MercadoPago preapproval plan - missing ID');
+      }
+      return { success: true, data: SubscriptionMapper.toSubscriptionPlan(response) };
+    } catch (error) {
+      this.logger.error('Error creating MercadoPago preapproval plan', errorFields(error));
+      return {
+        success: false,
+        error: MercadoPagoApiError.fromSdkError(error, 'plan_creation_failed', 'Error al crear el plan de suscripción en MercadoPago'),
+      };
+    }
+  }
+
+  async getPlan(planId: string): Promise<SubscriptionPlanResponse> {
+    if (!planId) {
+      return { success: false, error: this.missingIdError('planId') };
+    }
+
+    try {
+      const response = await this.apiClient.getPreApprovalPlan(planId);
+      return { success: true, data: SubscriptionMapper.toSubscriptionPlan(response) };
+    } catch (error) {
+      this.logger.error('Error fetching MercadoPago preapproval plan', { plan_id: planId, ...errorFields(error) });
+      return {
+        success: false,
+        error: MercadoPagoApiError.fromSdkError(error, 'plan_not_found', 'No se pudo obtener el plan de suscripción'),
+      };
+    }
+  }
+
+  /**
+   * Actualiza un plan. Los cambios de monto aplican a los próximos cobros de las suscripciones del plan
+   * y se validan y redondean en la moneda del plan, que no se puede cambiar.
+   */
+  async updatePlan(planId: string, update: SubscriptionPlanUpdate): Promise<SubscriptionPlanResponse> {
+    if (!planId) {
+      return { success: false, error: this.missingIdError('planId') };
+    }
+
+    let currency = this.defaultCurrency();
+    if (update?.auto_recurring) {
+      const current = await this.getPlan(planId);
+      if (!current.success || !current.data) {
+        return current;
+      }
+
+      const currencyId = current.data.auto_recurring.currency_id;
+      currency = isSupportedCurrency(currencyId) ? currencyId : currency;
+      if (update.auto_recurring.currency !== undefined && update.auto_recurring.currency !== currency) {
+        return {
+          success: false,
+          error: new PaymentLibError(
+            `El plan ${planId} cobra en ${currency} y su moneda no se puede cambiar`,
+            { code: 'plan_currency_mismatch', status: 409 }
+          ),
+        };
+      }
+    }
+
+    const validation = PaymentValidator.validateSubscriptionPlan(update, currency, this.validationOptions, true);
+    if (!validation.isValid) {
+      return { success: false, error: ValidationError.fromResult(validation) };
+    }
+
+    const body = this.buildPlanBody(update, currency, true);
+    return this.updatePlanBody(planId, body, 'plan_update_failed', 'Error al actualizar el plan de suscripción en MercadoPago');
+  }
+
+  // Un plan cancelado no acepta nuevas suscripciones; las existentes siguen activas
+  async cancelPlan(planId: string): Promise<SubscriptionPlanResponse> {
+    if (!planId) {
+      return { success: false, error: this.missingIdError('planId') };
+    }
+
+    return this.updatePlanBody(planId, { status: 'cancelled' }, 'plan_cancel_failed', 'Error al cancelar el plan de suscripción en MercadoPago');
+  }
+
+  // ============= SUSCRIPCIONES =============
+
+  /**
+   * Crea una suscripción. En estado pending devuelve un init_point para que el comprador la autorice;
+   * con card_token_id y status 'authorized' queda activa de inmediato.
+   */
+  async createSubscription(request: SubscriptionRequest, idempotencyKey?: string): Promise<SubscriptionResponse> {
+    const validation = PaymentValidator.validateSubscription(request, this.defaultCurrency(), this.validationOptions);
+    if (!validation.isValid) {
+      return { success: false, error: ValidationError.fromResult(validation) };
+    }
+
+    try {
+      const response = await this.apiClient.createPreApproval(this.buildSubscriptionBody(request), idempotencyKey);
+      if (!response?.id) {
+        throw new Error('Failed to create MercadoPago preapproval - missing ID');
+      }
+      return { success: true, data: SubscriptionMapper.toSubscription(response) };
+    } catch (error) {
+      this.logger.error('Error creating MercadoPago preapproval', errorFields(error));
+      return {
+        success: false,
+        error: MercadoPagoApiError.fromSdkError(error, 'subscription_creation_failed', 'Error al crear la suscripción en MercadoPago'),
+      };
+    }
+  }
+
+  async getSubscription(subscriptionId: string): Promise<SubscriptionResponse> {
+    if (!subscriptionId) {
+      return { success: false, error: this.missingIdError('subscriptionId') };
+    }
+
+    try {
+      const response = await this.apiClient.getPreApproval(subscriptionId);
+      return { success: true, data: SubscriptionMapper.toSubscription(response) };
+    } catch (error) {
+      this.logger.error('Error fetching MercadoPago preapproval', { subscription_id: subscriptionId, ...errorFields(error) });
+      return {
+        success: false,
+        error: MercadoPagoApiError.fromSdkError(error, 'subscription_not_found', 'No se pudo obtener la suscripción'),
+      };
+    }
+  }
+
+  /**
+   * Actualiza monto, tarjeta o datos de una suscripción que no esté cancelada.
+   * El monto se valida y redondea con la moneda de la suscripción.
+   */
+  async updateSubscription(subscriptionId: string, update: SubscriptionUpdate): Promise<SubscriptionResponse> {
+    const current = await this.getSubscription(subscriptionId);
+    if (!current.success || !current.data) {
+      return current;
+    }
+
+    const subscription = current.data;
+    if (subscription.status === 'cancelled') {
+      return {
+        success: false,
+        error: new PaymentLibError(
+          `La suscripción ${subscription.id} está cancelada y no se puede modificar`,
+          { code: 'subscription_cancelled', status: 409 }
+        ),
+      };
+    }
+
+    const currencyId = subscription.auto_recurring.currency_id;
+    const currency: Currency = isSupportedCurrency(currencyId) ? currencyId : this.defaultCurrency();
+    const validation = PaymentValidator.validateSubscriptionUpdate(update, currency, this.validationOptions);
+    if (!validation.isValid) {
+      return { success: false, error: ValidationError.fromResult(validation) };
+    }
+
+    const body = {
+      reason: update.reason,
+      back_url: update.back_url,
+      card_token_id: update.card_token_id,
+      external_reference: update.external_reference,
+      auto_recurring: update.transaction_amount !== undefined
+        ? { transaction_amount: roundAmount(update.transaction_amount, currency), currency_id: currency }
+        : undefined,
+    };
+
+    return this.updateSubscriptionBody(subscriptionId, body, 'subscription_update_failed', 'Error al actualizar la suscripción en MercadoPago');
+  }
+
+  // Suspende los cobros hasta resumeSubscription
+  async pauseSubscription(subscriptionId: string): Promise<SubscriptionResponse> {
+    return this.changeSubscriptionStatus(subscriptionId, 'paused');
+  }
+
+  async resumeSubscription(subscriptionId: string): Promise<SubscriptionResponse> {
+    return this.changeSubscriptionStatus(subscriptionId, 'authorized');
+  }
+
+  // Definitivo: una suscripción cancelada no se puede reactivar
+  async cancelSubscription(subscriptionId: string): Promise<SubscriptionResponse> {
+    return this.changeSubscriptionStatus(subscriptionId, 'cancelled');
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  /**
+   * Verifica el estado actual antes de cambiarlo. Pedir el estado en el que ya está
+   * devuelve la suscripción sin llamar a la API, así los reintentos son seguros.
+   */
+  private async changeSubscriptionStatus(
+    subscriptionId: string,
+    status: Exclude<SubscriptionStatus, 'pending'>
+  ): Promise<SubscriptionResponse> {
+    const current = await this.getSubscription(subscriptionId);
+    if (!current.success || !current.data) {
+      return current;
+    }
+
+    const subscription = current.data;
+    if (subscription.status === status) {
+      return current;
+    }
+
+    if (!SUBSCRIPTION_TRANSITIONS[status].includes(subscription.status as SubscriptionStatus)) {
+      return { success: false, error: this.invalidTransitionError(subscription.id, subscription.status, status) };
+    }
+
+    return this.updateSubscriptionBody(subscriptionId, { status }, 'subscription_status_update_failed', 'Error al cambiar el estado de la suscripción en MercadoPago');
+  }
+
+  private async updateSubscriptionBody(
+    subscriptionId: string,
+    body: Record<string, any>,
+    code: string,
+    message: string
+  ): Promise<SubscriptionResponse> {
+    try {
+      const response = await this.apiClient.updatePreApproval(subscriptionId, body);
+      return { success: true, data: SubscriptionMapper.toSubscription(response) };
+    } catch (error) {
+      this.logger.error('Error updating MercadoPago preapproval', { subscription_id: subscriptionId, ...errorFields(error) });
+      return { success: false, error: MercadoPagoApiError.fromSdkError(error, code, message) };
+    }
+  }
+
+  private async updatePlanBody(
+    planId: string,
+    body: Record<string, any>,
+    code: string,
+    message: string
+  ): Promise<SubscriptionPlanResponse> {
+    try {
+      const response = await this.apiClient.updatePreApprovalPlan(planId, body);
+      return { success: true, data: SubscriptionMapper.toSubscriptionPlan(response) };
+    } catch (error) {
+      this.logger.error('Error updating MercadoPago preapproval plan', { plan_id: planId, ...errorFields(error) });
+      return { success: false, error: MercadoPagoApiError.fromSdkError(error, code, message) };
+    }
+  }
+
+  private buildPlanBody(request: SubscriptionPlanUpdate, currency: Currency, partial = false): Record<string, any> {
+    const autoRecurring = request.auto_recurring ? SubscriptionMapper.toApiAutoRecurring(request.auto_recurring, currency) : undefined;
+    if (autoRecurring && partial) {
+      // currency_id solo se envía al crear el plan
+      delete autoRecurring.currency_id;
+    }
+
+    return {
+      reason: request.reason,
+      back_url: request.back_url,
+      auto_recurring: autoRecurring,
+      payment_methods_allowed: request.payment_methods_allowed
+        ? SubscriptionMapper.toApiPaymentMethodsAllowed(request.payment_methods_allowed)
+        : undefined,
+    };
+  }
+
+  private buildSubscriptionBody(request: SubscriptionRequest): Record<string, any> {
+    const currency = request.auto_recurring?.currency || this.defaultCurrency();
+
+    return {
+      payer_email: request.payer_email,
+      preapproval_plan_id: request.preapproval_plan_id,
+      card_token_id: request.card_token_id,
+      reason: request.reason,
+      external_reference: request.external_reference,
+      back_url: request.back_url || this.defaultBackUrl(),
+      auto_recurring: request.auto_recurring ? SubscriptionMapper.toApiAutoRecurring(request.auto_recurring, currency) : undefined,
+      status: request.status,
+    };
+  }
+
+  private defaultBackUrl(): string {
+    return `${this.config.baseUrl}/subscription/success`;
+  }
+
+  private defaultCurrency(): Currency {
+    return this.config.currency || DEFAULT_CURRENCY;
+  }
+
+  private missingIdError(path: string): ValidationError {
+    return ValidationError.fromResult(PaymentValidator.validateResourceId(undefined, path, this.validationOptions));
+  }
+
+  private invalidTransitionError(subscriptionId: string, from: string, to: string): PaymentError {
+    return new PaymentLibError(
+      `La suscripción ${subscriptionId} no se puede pasar de ${from} a ${to}`,
+      { code: 'subscription_invalid_transition', status: 409 }
+    );
+  }
+}
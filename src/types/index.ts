@@ -2,20 +2,194 @@
 
 export interface CustomerInfo {
   email: string;
-  name: string;
+  name: string; // Nombre completo; sin surname se separa en nombre y apellido para MercadoPago
+  surname?: string;
+  phone?: {
+    area_code?: string;
+    number: string;
+  };
+  identification?: {
+    type: IdentificationType; // Debe corresponder al país de la moneda del pago
+    number: string; // Con o sin separadores
+  };
+  address?: {
+    street_name: string;
+    street_number?: string;
+    zip_code?: string;
+  };
 }
 
+// DNI/CUIT/CUIL (AR), CPF/CNPJ (BR), CC/CE/NIT (CO), RUT (CL), RFC (MX), CI (UY); DNI también en PE
+export type IdentificationType = 'DNI' | 'CUIT' | 'CUIL' | 'CPF' | 'CNPJ' | 'CC' | 'CE' | 'NIT' | 'RUT' | 'RFC' | 'CI';
+
 export interface PaymentItem {
   id?: string; // Opcional
   title: string; // Obligatorio
   description?: string; // Opcional
   quantity: number; // Obligatorio
   unit_price: number; // Obligatorio
+  discount?: Discount; // Opcional, se aplica antes de los descuentos del carrito
+  tax_rate?: number; // Opcional, porcentaje que reemplaza a config.tax.rate (0 para items exentos)
 }
 
 export interface PaymentRequest {
   customer_info: CustomerInfo;
   items: PaymentItem[];
+  currency?: Currency; // Opcional, por defecto la moneda de la configuración
+  idempotency_key?: string; // Opcional, se envía como X-Idempotency-Key
+  external_reference?: string; // Opcional, por defecto el id de la orden generada
+  preference?: PreferenceOptions; // Se combina con config.preference, el request tiene prioridad
+  shipping?: ShippingOptions; // Solo para productos físicos
+  discounts?: Discount[]; // Descuentos sobre el carrito, se aplican en orden
+  coupon_code?: string; // Se resuelve con config.couponResolver y se aplica después de discounts
+}
+
+/**
+ * Vendedor conectado por OAuth en un marketplace. El pago se crea con su token y el
+ * marketplace cobra marketplace_fee. Se pasa desde el servidor, nunca desde el navegador.
+ */
+export interface MarketplaceSeller {
+  access_token: string;
+  id?: string; // Referencia del vendedor que se guarda en la orden
+  marketplace_fee?: number; // Comisión fija en la moneda del pago; sin definir se usa config.marketplace.fee_percentage
+}
+
+export interface ProcessPaymentOptions {
+  locale?: ValidationLocale; // Idioma de los errores de validación para esta llamada
+  seller?: MarketplaceSeller;
+}
+
+export interface MarketplaceConfig {
+  fee_percentage?: number; // Comisión por defecto sobre el total, p. ej. 10 para el 10%
+  sponsor_id?: number; // Cuenta del marketplace en Checkout API
+}
+
+// percentage: value es un porcentaje (10 = 10%); fixed: monto en la moneda del pago
+export type DiscountType = 'percentage' | 'fixed';
+
+export interface Discount {
+  type: DiscountType;
+  value: number;
+  code?: string; // Cupón que originó el descuento
+  description?: string;
+}
+
+// Impuesto al consumo (IVA); inclusive cuando los precios de los items ya lo incluyen
+export interface TaxOptions {
+  rate: number; // Porcentaje, p. ej. 19 para el IVA de Colombia
+  inclusive: boolean;
+  name?: string; // 'IVA' por defecto
+}
+
+export interface CouponContext {
+  request: PaymentRequest;
+  currency: Currency;
+}
+
+// Devuelve el descuento del cupón o null si no existe o no aplica; no debería marcarlo como usado
+export type CouponResolver = (code: string, context: CouponContext) => Promise<Discount | null> | Discount | null;
+
+export interface AppliedDiscount extends Discount {
+  scope: 'item' | 'cart';
+  item_index?: number; // Solo en descuentos de item
+  amount: number; // Monto efectivamente descontado
+}
+
+export interface TotalsLine {
+  index: number; // Posición del item en el request
+  id?: string;
+  title: string;
+  description?: string;
+  quantity: number;
+  unit_price: number; // Precio de lista
+  subtotal: number; // unit_price * quantity
+  discount_amount: number; // Descuento del item más su parte de los descuentos del carrito
+  tax_rate: number;
+  tax_amount: number;
+  total: number; // Lo que paga el comprador por la línea
+}
+
+// Todos los montos ya redondeados a los decimales de la moneda; las sumas cuadran exactamente
+export interface TotalsBreakdown {
+  currency: Currency;
+  lines: TotalsLine[];
+  subtotal: number;
+  discount_total: number;
+  tax_total: number; // Con impuestos incluidos se informa pero no se suma al total
+  tax_inclusive: boolean;
+  shipping_cost: number; // Solo el costo conocido; 0 en me2
+  total: number;
+  discounts: AppliedDiscount[];
+}
+
+// custom: el comercio define el costo; me2: Mercado Envíos lo calcula con las dimensiones del paquete
+export type ShippingMode = 'custom' | 'me2';
+
+export interface ShippingAddress {
+  zip_code: string;
+  street_name: string;
+  street_number?: string;
+  floor?: string;
+  apartment?: string;
+  city_name?: string;
+  state_name?: string;
+  country_name?: string;
+}
+
+export interface ShippingDimensions {
+  height: number; // Centímetros
+  width: number;
+  length: number;
+  weight: number; // Gramos
+}
+
+export interface ShippingOptions {
+  mode: ShippingMode;
+  cost?: number; // Costo fijo en la moneda del pago, requerido en modo custom salvo envío gratis
+  free_shipping?: boolean;
+  receiver_address?: ShippingAddress;
+  dimensions?: ShippingDimensions; // Requerido en modo me2
+  local_pickup?: boolean;
+}
+
+// Envío elegido, tal como vuelve en el pago notificado por webhook
+export interface PaymentShippingInfo {
+  mode: ShippingMode | null;
+  cost: number;
+  free_shipping: boolean;
+  receiver_address: ShippingAddress | null;
+}
+
+// Tipos de medio de pago que se pueden excluir del checkout
+export type PaymentTypeId =
+  | 'account_money'
+  | 'ticket'
+  | 'bank_transfer'
+  | 'atm'
+  | 'credit_card'
+  | 'debit_card'
+  | 'prepaid_card'
+  | 'digital_currency'
+  | 'digital_wallet'
+  | 'voucher_card'
+  | 'crypto_transfer';
+
+export interface PreferenceOptions {
+  back_urls?: {
+    success?: string; // Por defecto {baseUrl}/payment/success
+    failure?: string; // Por defecto {baseUrl}/payment/failure
+    pending?: string; // Por defecto {baseUrl}/payment/pending
+  };
+  auto_return?: 'approved' | 'all' | false; // 'approved' por defecto, false no redirige automáticamente
+  excluded_payment_methods?: string[]; // Ids de medio de pago, p. ej. 'amex', 'efecty'
+  excluded_payment_types?: PaymentTypeId[]; // ['ticket'] por defecto
+  default_installments?: number;
+  max_installments?: number; // 12 por defecto
+  statement_descriptor?: string; // Texto en el resumen de la tarjeta, máximo 22 caracteres
+  binary_mode?: boolean; // Solo aprobado o rechazado, sin pagos pendientes
+  metadata?: Record<string, any>; // Se suma a la metadata que agrega la librería
+  expiration_minutes?: number; // Vencimiento de pagos en efectivo y de la orden, por defecto config.expirationTime
+  expires?: boolean; // true para que el link de pago también venza a los expiration_minutes
 }
 
 export interface PaymentResponse {
@@ -30,11 +204,158 @@ export interface PaymentResult {
   data?: PaymentResponse;
   error?: string;
   details?: string[];
+  error_info?: PaymentError; // Instancia de ValidationError, MercadoPagoApiError o PersistenceError
+}
+
+// Estados que puede tener una orden guardada (ver OrderStateMachine)
+export type OrderStatus =
+  | 'pending'
+  | 'authorized'
+  | 'approved'
+  | 'rejected'
+  | 'expired'
+  | 'cancelled'
+  | 'refunded'
+  | 'partially_refunded'
+  | 'charged_back';
+
+export interface OrderItem {
+  id?: string;
+  title: string;
+  description?: string;
+  quantity: number;
+  unit_price: number;
+  discount_amount: number;
+  tax_amount: number;
+  total_price: number; // Con descuentos e impuestos
+}
+
+export interface Order {
+  id: string;
+  external_reference: string; // Enviada a MercadoPago para vincular pagos y webhooks
+  customer_info: CustomerInfo;
+  items: OrderItem[];
+  subtotal_amount: number; // Items a precio de lista
+  discount_amount: number;
+  tax_amount: number;
+  total_amount: number; // Subtotal menos descuentos, más impuestos no incluidos y el costo de envío conocido
+  total_items: number;
+  discounts?: AppliedDiscount[];
+  coupon_code?: string;
+  currency_id: Currency;
+  shipping?: OrderShipping;
+  marketplace?: OrderMarketplace; // Solo en pagos creados para un vendedor conectado
+  preference_id: string;
+  status: OrderStatus;
+  created_at: string;
+  updated_at?: string;
+  expires_at: string;
 }
 
+export interface OrderShipping {
+  mode: ShippingMode;
+  cost: number | null; // null en me2: Mercado Envíos calcula el costo en el checkout
+  free_shipping: boolean;
+  receiver_address?: ShippingAddress;
+}
+
+export interface OrderMarketplace {
+  seller_id: string | null;
+  marketplace_fee: number; // Comisión del marketplace
+  seller_amount: number; // total_amount menos marketplace_fee, antes de los costos de MercadoPago
+}
+
+// Persistencia de órdenes; reemplaza al SaveOrderCallback
+export interface OrderRepository {
+  save(order: Order): Promise<void> | void;
+  findById(orderId: string): Promise<Order | null> | Order | null;
+  findByPreferenceId(preferenceId: string): Promise<Order | null> | Order | null;
+  findByExternalReference(externalReference: string): Promise<Order | null> | Order | null;
+  updateStatus(orderId: string, status: OrderStatus): Promise<Order | null> | Order | null;
+}
+
+// Resultado de aplicar a la orden local el estado recibido por webhook o reembolso
+export interface OrderStatusUpdate {
+  order_id: string;
+  previous_status: OrderStatus;
+  status: OrderStatus;
+  applied: boolean; // false si la transición fue rechazada (webhook fuera de orden)
+  error?: string;
+}
+
+export interface SaveOrderData<TOrder = any> {
+  id: string;
+  customer: string;
+  items_count: number;
+  total_amount: number;
+  preference_id: string | null;
+  status: OrderStatus;
+  full_order: TOrder | null;
+  refund?: RefundResult; // Presente cuando el guardado proviene de un reembolso
+}
+
+// Tipo para el callback de guardado
+/** @deprecated Usar OrderRepository */
+export type SaveOrderCallback<TOrder = any> = (orderData: SaveOrderData<TOrder>) => Promise<void> | void;
+
 export interface ValidationResult {
   isValid: boolean;
-  errors: string[];
+  errors: string[]; // Mensajes ya traducidos, en el mismo orden que issues
+  issues: ValidationIssue[];
+}
+
+export type ValidationLocale = 'es' | 'en' | 'pt-BR';
+
+// Error de validación direccionable a un campo del formulario
+export interface ValidationIssue {
+  code: string; // 'required', 'too_short', 'invalid_email', ... o el código de una regla propia
+  path: string; // Ruta JSON del campo, p. ej. 'items[0].title'
+  message: string;
+  params?: Record<string, string | number>;
+}
+
+// Lo que devuelve una regla propia; sin message se busca el código en los catálogos
+export interface ValidationIssueInput {
+  code: string;
+  path: string;
+  params?: Record<string, string | number>;
+  message?: string;
+}
+
+export interface ValidationRuleContext {
+  currency: Currency;
+  locale: ValidationLocale;
+  totals: TotalsBreakdown; // Desglose que se cobra: descuentos, cupón, impuestos y envío
+}
+
+// Regla del comercio, se ejecuta con el request ya validado y sus totales calculados
+export type ValidationRule = (
+  request: PaymentRequest,
+  context: ValidationRuleContext
+) => ValidationIssueInput | ValidationIssueInput[] | null | undefined | void;
+
+export interface ValidationOptions {
+  locale?: ValidationLocale; // 'es' por defecto
+  rules?: ValidationRule[];
+  messages?: Partial<Record<ValidationLocale, Record<string, string>>>; // Mensajes de códigos propios o reemplazos, con {param}
+}
+
+// ===== LOGGING TYPES =====
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface RedactionOptions {
+  headers?: string[]; // Cabeceras a ocultar, se suman a authorization, cookie, x-signature, etc.
+  payerData?: boolean; // Enmascarar email, nombre, documento, teléfono y direcciones del pagador, true por defecto
 }
 
 export interface MercadoPagoConfig {
@@ -43,6 +364,38 @@ export interface MercadoPagoConfig {
   WEBHOOK_URL: string;
   timeout?: number;
   expirationTime?: number;
+  currency?: Currency; // Moneda por defecto, 'COP' si no se especifica
+  idempotencyStore?: IdempotencyStore; // Por defecto InMemoryIdempotencyStore
+  idempotencyTtl?: number; // Milisegundos que se recuerda una respuesta, 24 horas por defecto
+  orderRepository?: OrderRepository;
+  logger?: Logger; // Por defecto silencioso en producción y consola en desarrollo
+  retries?: number; // Atajo para httpPolicy.retries
+  httpPolicy?: HttpPolicyOptions;
+  validation?: ValidationOptions; // Idioma por defecto de los errores y reglas propias del comercio
+  preference?: PreferenceOptions; // Valores por defecto de cada preferencia
+  marketplace?: MarketplaceConfig;
+  tax?: TaxOptions; // Sin configurar no se calculan impuestos
+  couponResolver?: CouponResolver; // Requerido para aceptar coupon_code
+}
+
+// Reintentos, plazo total y circuit breaker de las llamadas a la API de MercadoPago
+export interface HttpPolicyOptions {
+  retries?: number; // Reintentos tras el primer intento, 2 por defecto
+  baseDelayMs?: number; // Base del backoff exponencial, 200 ms por defecto
+  maxDelayMs?: number; // Tope de espera entre intentos, 5000 ms por defecto
+  deadlineMs?: number; // Plazo total por operación incluyendo reintentos, 20000 ms por defecto
+  circuitBreaker?: CircuitBreakerOptions | false;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Fallas reintentables consecutivas para abrir el circuito, 5 por defecto
+  resetTimeoutMs?: number; // Tiempo abierto antes de dejar pasar una petición de prueba, 30000 ms por defecto
+}
+
+// Almacén de respuestas por idempotency_key para no crear pagos duplicados
+export interface IdempotencyStore {
+  get(key: string): Promise<PaymentResponse | null> | PaymentResponse | null;
+  set(key: string, response: PaymentResponse, ttlMs: number): Promise<void> | void;
 }
 
 // lib/payments-lib/types.ts
@@ -63,10 +416,62 @@ export interface WebhookEvent {
   [key: string]: any; // Para campos adicionales
 }
 
+// Datos del request ya normalizados que recibe el pipeline de webhooks
+export interface WebhookRequestData {
+  body: string;
+  headers: Record<string, string>; // Nombres en minúsculas
+  query: Record<string, string> | null; // Query string de la URL notificada (incluye data.id)
+  clientIP: string;
+}
+
+// Entrada cruda para procesar webhooks fuera de Fetch o Node http
+export interface RawWebhookInput {
+  body: string | Buffer | Record<string, any>;
+  headers: Record<string, string | string[] | undefined>;
+  query?: Record<string, string | string[] | undefined>;
+  url?: string; // Alternativa a query: se extrae de la URL
+  clientIP?: string;
+}
+
 export interface WebhookConfig {
   accessToken: string;
-  webhookSecret?: string;
+  webhookSecret?: string | string[]; // Varios secretos permiten rotarlos sin downtime
   enableSignatureValidation?: boolean;
+  signatureTolerance?: number; // Segundos de antigüedad aceptados para ts, 300 por defecto (0 desactiva)
+  dedupStore?: WebhookDedupStore; // Por defecto InMemoryWebhookDedupStore
+  dedupTtl?: number; // Milisegundos que se recuerda un webhook procesado, 24 horas por defecto
+  orderRepository?: OrderRepository; // Si se define, los webhooks actualizan el estado de la orden
+  logger?: Logger; // Por defecto silencioso en producción y consola en desarrollo
+  redaction?: RedactionOptions;
+  timeout?: number; // Milisegundos por petición a la API, 5000 por defecto
+  retries?: number; // Atajo para httpPolicy.retries
+  httpPolicy?: HttpPolicyOptions;
+  // Marketplace: token del vendedor dueño del recurso notificado (user_id), null para usar accessToken
+  resolveSellerAccessToken?: (userId: string) => Promise<string | null | undefined> | string | null | undefined;
+}
+
+// Almacén de webhooks ya procesados, por webhook_id + x-request-id + action
+export interface WebhookDedupStore {
+  get(key: string): Promise<WebhookProcessResult | null> | WebhookProcessResult | null;
+  set(key: string, result: WebhookProcessResult, ttlMs: number): Promise<void> | void;
+  // Reserva atómica de la clave mientras se procesa (SET NX con TTL); false si ya está reservada o procesada
+  claim(key: string, ttlMs: number): Promise<boolean> | boolean;
+  // Libera la reserva de un procesamiento fallido para que el reintento de MercadoPago pueda procesarlo
+  release(key: string): Promise<void> | void;
+}
+
+export type WebhookSignatureErrorCode =
+  | 'missing_signature'
+  | 'invalid_signature_format'
+  | 'invalid_timestamp'
+  | 'timestamp_out_of_tolerance'
+  | 'signature_mismatch'
+  | 'data_id_mismatch'
+  | 'validation_error';
+
+export interface WebhookSignatureError {
+  code: WebhookSignatureErrorCode;
+  message: string;
 }
 
 export interface WebhookLogData {
@@ -86,23 +491,92 @@ export interface WebhookLogData {
   payment_method_id?: string | null;
   payer_email?: string | null;
   error_message?: string | null;
+  merchant_order_id?: string | null;
+  subscription_id?: string | null;
   raw_data: any;
   headers_received: Record<string, string>;
   processed_at: string;
 }
 
+// Estado de cobro de una merchant order respecto a su total
+export type MerchantOrderPaymentState = 'unpaid' | 'partially_paid' | 'paid' | 'overpaid';
+
+export interface MerchantOrderPaymentSummary {
+  id: string;
+  status: string;
+  transaction_amount: number;
+  total_paid_amount: number; // Informativo: incluye intereses por cuotas, no cuenta para paid_amount
+  amount_refunded: number;
+  date_approved: string | null;
+}
+
+export interface MerchantOrderInfo {
+  id: string;
+  preference_id: string | null;
+  external_reference: string | null;
+  status: string; // 'opened', 'closed', 'expired'
+  order_status: string | null;
+  currency_id: string | null;
+  total_amount: number; // Total de items + envío
+  paid_amount: number; // Suma de transaction_amount de los pagos aprobados
+  refunded_amount: number;
+  balance: number; // Pendiente por cobrar (negativo si hay sobrepago)
+  payment_state: MerchantOrderPaymentState;
+  payments: MerchantOrderPaymentSummary[];
+}
+
 // Nuevo tipo para el resultado del webhook procesado
 export interface WebhookResult {
   webhook_log: WebhookLogData;
   payment_info: any | null;
+  merchant_order_info?: MerchantOrderInfo | null;
+  subscription_info?: Subscription | null; // Tópico subscription_preapproval
+  authorized_payment_info?: SubscriptionAuthorizedPayment | null; // Tópico subscription_authorized_payment
   mapped_status: string | null;
+  shipping?: PaymentShippingInfo | null; // Envío del pago notificado, null si no tiene
+  fees?: PaymentFeeBreakdown | null; // Costos del pago notificado según fee_details
+  order?: Order | null; // Orden local resuelta por external_reference o preference_id
+  order_update?: OrderStatusUpdate | null;
 }
 
+// Eventos a los que se puede suscribir MercadoPagoWebhookHandler.on()
+export interface WebhookEventMap {
+  'payment.approved': PaymentResultWeebhook;
+  'payment.authorized': PaymentResultWeebhook;
+  'payment.pending': PaymentResultWeebhook;
+  'payment.rejected': PaymentResultWeebhook;
+  'payment.cancelled': PaymentResultWeebhook;
+  'payment.refunded': PaymentResultWeebhook;
+  'payment.charged_back': PaymentResultWeebhook;
+  'merchant_order.opened': MerchantOrderInfo;
+  'merchant_order.closed': MerchantOrderInfo;
+  'merchant_order.expired': MerchantOrderInfo;
+  'subscription.pending': Subscription;
+  'subscription.authorized': Subscription;
+  'subscription.paused': Subscription;
+  'subscription.cancelled': Subscription;
+  'subscription_payment.scheduled': SubscriptionAuthorizedPayment;
+  'subscription_payment.processed': SubscriptionAuthorizedPayment;
+  'subscription_payment.recycling': SubscriptionAuthorizedPayment;
+  'subscription_payment.cancelled': SubscriptionAuthorizedPayment;
+}
+
+export type WebhookEventName = keyof WebhookEventMap;
+
+export type WebhookEventListener<E extends WebhookEventName> = (
+  payload: WebhookEventMap[E],
+  result: WebhookResult
+) => Promise<void> | void;
+
 export interface WebhookProcessResult {
   success: boolean;
   status: number;
   message: string;
   error?: string;
+  duplicate?: boolean; // true si el webhook ya había sido procesado
+  signature_error?: WebhookSignatureError; // Instancia de SignatureError
+  error_info?: PaymentError; // MercadoPagoApiError o PersistenceError cuando status es 500
+  event?: WebhookEventName | null; // Evento despachado a los listeners registrados
   data?: WebhookResult;
 }
 
@@ -124,6 +598,8 @@ export interface PaymentIntent {
       number: string;
     };
   };
+  token?: string; // Token de tarjeta generado en el frontend (Checkout API)
+  issuer_id?: string;
   payment_method_id?: string;
   installments?: number;
   capture?: boolean;
@@ -159,6 +635,8 @@ export interface PaymentResultWeebhook {
     };
   };
   metadata?: Record<string, any>;
+  shipping?: PaymentShippingInfo;
+  fees?: PaymentFeeBreakdown;
   // Campos específicos de MercadoPago
   collector_id?: number;
   operation_type?: string;
@@ -194,17 +672,196 @@ export interface PaymentResultWeebhook {
   };
 }
 
+// fee_details agrupado por tipo; application_fee es la comisión del marketplace
+export interface PaymentFeeBreakdown {
+  marketplace_fee: number;
+  mercadopago_fee: number;
+  financing_fee: number;
+  shipping_fee: number;
+  other_fees: number; // Tipos no listados (coupon_fee, etc.)
+  total_fees: number; // Solo los que paga el vendedor (fee_payer 'collector')
+  net_received_amount: number | null; // Lo que recibe el vendedor, según transaction_details
+  fee_details: Array<{
+    type: string;
+    amount: number;
+    fee_payer: string;
+  }>;
+}
+
 export interface CreatePaymentOptions {
   capture?: boolean;
   binary_mode?: boolean;
   statement_descriptor?: string;
   notification_url?: string;
   callback_url?: string;
-  sponsor_id?: number;
+  sponsor_id?: number; // Por defecto config.marketplace.sponsor_id cuando se indica seller
+  seller?: MarketplaceSeller; // Crea el pago con el token del vendedor y cobra application_fee
   processing_mode?: string;
   merchant_account_id?: string;
 }
 
+// ===== SUBSCRIPTION TYPES =====
+
+export type SubscriptionFrequencyType = 'days' | 'months';
+
+// MercadoPago solo admite días de cobro del 1 al 28 para que existan en todos los meses
+export type BillingDay =
+  | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13 | 14
+  | 15 | 16 | 17 | 18 | 19 | 20 | 21 | 22 | 23 | 24 | 25 | 26 | 27 | 28;
+
+export interface SubscriptionFrequency {
+  frequency: number; // Cada cuántos frequency_type se cobra, p. ej. 1 + 'months' es mensual
+  frequency_type: SubscriptionFrequencyType;
+}
+
+export interface SubscriptionFreeTrial extends SubscriptionFrequency {
+  first_invoice_offset?: number; // Días hasta el primer cobro tras la prueba
+}
+
+export interface AutoRecurringOptions extends SubscriptionFrequency {
+  transaction_amount: number;
+  currency?: Currency; // Opcional, por defecto la moneda de la configuración
+  repetitions?: number; // Cantidad de cobros; sin definir la suscripción no termina
+  billing_day?: BillingDay; // Solo con frequency_type 'months'
+  billing_day_proportional?: boolean; // Cobra proporcional el primer período hasta billing_day
+  free_trial?: SubscriptionFreeTrial;
+  start_date?: string; // ISO 8601, solo en suscripciones sin plan
+  end_date?: string;
+}
+
+export interface SubscriptionPaymentMethodsAllowed {
+  payment_types?: PaymentTypeId[];
+  payment_methods?: string[]; // 'visa', 'master', etc.
+}
+
+export type SubscriptionPlanStatus = 'active' | 'cancelled';
+
+// Plantilla (preapproval_plan) que comparten varias suscripciones
+export interface SubscriptionPlanRequest {
+  reason: string; // Lo que ve el comprador en el checkout y el resumen de la tarjeta
+  auto_recurring: AutoRecurringOptions;
+  back_url?: string; // Por defecto `${baseUrl}/subscription/success`
+  payment_methods_allowed?: SubscriptionPaymentMethodsAllowed;
+}
+
+export interface SubscriptionPlanUpdate {
+  reason?: string;
+  back_url?: string;
+  auto_recurring?: Partial<AutoRecurringOptions>;
+  payment_methods_allowed?: SubscriptionPaymentMethodsAllowed;
+}
+
+export type SubscriptionStatus = 'pending' | 'authorized' | 'paused' | 'cancelled';
+
+/**
+ * Suscripción (preapproval) de un comprador. Con preapproval_plan_id hereda los
+ * términos del plan y requiere card_token_id; sin plan se definen reason y auto_recurring.
+ */
+export interface SubscriptionRequest {
+  payer_email: string;
+  preapproval_plan_id?: string;
+  card_token_id?: string; // Token generado en el frontend, requerido con plan o con status 'authorized'
+  reason?: string;
+  auto_recurring?: AutoRecurringOptions;
+  back_url?: string; // Por defecto `${baseUrl}/subscription/success`
+  external_reference?: string;
+  status?: 'pending' | 'authorized'; // pending devuelve un init_point para que el comprador autorice
+}
+
+// Los cambios de estado se hacen con pause, resume y cancel
+export interface SubscriptionUpdate {
+  reason?: string;
+  back_url?: string;
+  card_token_id?: string; // Cambia la tarjeta con la que se cobra
+  external_reference?: string;
+  transaction_amount?: number; // En la moneda de la suscripción
+}
+
+export interface SubscriptionAutoRecurring {
+  frequency: number;
+  frequency_type: SubscriptionFrequencyType;
+  transaction_amount: number | null;
+  currency_id: string | null;
+  repetitions?: number;
+  billing_day?: number;
+  billing_day_proportional?: boolean;
+  free_trial?: SubscriptionFreeTrial | null;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface SubscriptionPlan {
+  id: string;
+  reason: string;
+  status: string;
+  init_point: string | null; // Link para que un comprador se suscriba al plan
+  back_url: string | null;
+  auto_recurring: SubscriptionAutoRecurring;
+  payment_methods_allowed?: SubscriptionPaymentMethodsAllowed;
+  date_created: string;
+  last_modified: string | null;
+}
+
+export interface Subscription {
+  id: string;
+  status: string; // SubscriptionStatus
+  reason: string | null;
+  payer_id: number | null;
+  payer_email: string | null;
+  preapproval_plan_id: string | null;
+  external_reference: string | null;
+  init_point: string | null; // Link para que el comprador autorice la suscripción pendiente
+  back_url: string | null;
+  auto_recurring: SubscriptionAutoRecurring;
+  next_payment_date: string | null;
+  charged_quantity: number; // Cobros realizados
+  charged_amount: number;
+  last_charged_date: string | null;
+  date_created: string;
+  last_modified: string | null;
+}
+
+// Cobro periódico de una suscripción (authorized_payment); status: scheduled, processed, recycling, cancelled
+export interface SubscriptionAuthorizedPayment {
+  id: string;
+  preapproval_id: string;
+  status: string;
+  transaction_amount: number;
+  currency_id: string | null;
+  reason: string | null;
+  external_reference: string | null;
+  debit_date: string | null;
+  retry_attempt: number; // Reintentos de cobro realizados (recycling)
+  payment: {
+    id: string;
+    status: string;
+    status_detail: string | null;
+  } | null; // Pago generado por el cobro, null mientras está programado
+  date_created: string;
+}
+
+// ===== REFUND TYPES =====
+
+// Operaciones sobre un pago existente; un pago creado con el token de un vendedor se opera con el mismo token
+export interface PaymentOperationOptions {
+  seller?: MarketplaceSeller;
+}
+
+export interface RefundOptions extends PaymentOperationOptions {
+  amount?: number; // Si se omite, se reembolsa el saldo restante del pago
+}
+
+export interface RefundResult {
+  id: string;
+  payment_id: string;
+  amount: number;
+  status: string;
+  date_created: string;
+  reason?: string;
+  total_refunded: number; // Total reembolsado del pago, incluyendo este reembolso
+  remaining_amount: number; // Saldo que aún se puede reembolsar
+}
+
 // ===== CONFIGURATION TYPES =====
 
 export interface PaymentProviderConfig {
@@ -237,6 +894,15 @@ export interface PaymentError {
   message: string;
   details?: any;
   status?: number;
+  causes?: MercadoPagoErrorCause[]; // Arreglo `cause` que devuelve la API de MercadoPago
+  issues?: ValidationIssue[]; // Errores por campo cuando code es 'validation_error'
+  retryable?: boolean; // true ante caídas (red, 429, 5xx), false ante errores del request (token inválido, etc.)
+}
+
+export interface MercadoPagoErrorCause {
+  code: string | number;
+  description?: string;
+  data?: any;
 }
 
 // ===== UTILITY TYPES =====
@@ -273,4 +939,8 @@ export interface ApiResponse<T> {
 }
 
 export interface PaymentResponseWeebhook extends ApiResponse<PaymentResultWeebhook> {}
-export interface PaymentListResponse extends ApiResponse<PaymentResultWeebhook[]> {}
\ No newline at end of file
+export interface PaymentListResponse extends ApiResponse<PaymentResultWeebhook[]> {}
+export interface RefundResponse extends ApiResponse<RefundResult> {}
+export interface RefundListResponse extends ApiResponse<RefundResult[]> {}
+export interface SubscriptionPlanResponse extends ApiResponse<SubscriptionPlan> {}
+export interface SubscriptionResponse extends ApiResponse<Subscription> {}
\ No newline at end of file
@@ -0,0 +1,63 @@
+// utils/currency.ts
+
+import { Currency } from '../types/index.js';
+
+// Decimales admitidos por MercadoPago para cada moneda
+export const CURRENCY_DECIMALS: Record<Currency, number> = {
+  ARS: 2,
+  BRL: 2,
+  CLP: 0,
+  COP: 0,
+  MXN: 2,
+  PEN: 2,
+  UYU: 2,
+  USD: 2,
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCY_DECIMALS) as Currency[];
+
+export const DEFAULT_CURRENCY: Currency = 'COP';
+
+export function isSupportedCurrency(value: unknown): value is Currency {
+  return typeof value === 'string' && value in CURRENCY_DECIMALS;
+}
+
+export function getCurrencyDecimals(currency: Currency): number {
+  return CURRENCY_DECIMALS[currency];
+}
+
+/**
+ * Convierte un monto a unidades mínimas (centavos) como entero,
+ * evitando los errores de coma flotante al sumar montos.
+ */
+export function toMinorUnits(amount: number, currency: Currency): number {
+  const factor = 10 ** getCurrencyDecimals(currency);
+  // toPrecision elimina el ruido binario (p. ej. 1.005 * 100 = 100.49999...)
+  return Math.round(Number((amount * factor).toPrecision(15)));
+}
+
+export function fromMinorUnits(minorUnits: number, currency: Currency): number {
+  const decimals = getCurrencyDecimals(currency);
+  return Number((minorUnits / 10 ** decimals).toFixed(decimals));
+}
+
+/**
+ * Redondea un monto a los decimales permitidos por la moneda (half-up).
+ */
+export function roundAmount(amount: number, currency: Currency): number {
+  return fromMinorUnits(toMinorUnits(amount, currency), currency);
+}
+
+/**
+ * Indica si el monto ya respeta los decimales de la moneda.
+ */
+export function hasValidPrecision(amount: number, currency: Currency): boolean {
+  return roundAmount(amount, currency) === Number(amount.toPrecision(15));
+}
+
+/**
+ * Multiplica un precio unitario por una cantidad y devuelve el resultado en unidades mínimas.
+ */
+export function lineTotalMinorUnits(unitPrice: number, quantity: number, currency: Currency): number {
+  return toMinorUnits(unitPrice, currency) * quantity;
+}
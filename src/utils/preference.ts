@@ -0,0 +1,37 @@
+// utils/preference.ts
+
+import { PaymentTypeId, PreferenceOptions } from '../types/index.js';
+
+export const DEFAULT_MAX_INSTALLMENTS = 12;
+export const MAX_INSTALLMENTS_LIMIT = 36;
+export const DEFAULT_EXCLUDED_PAYMENT_TYPES: PaymentTypeId[] = ['ticket'];
+
+export const PAYMENT_TYPE_IDS: PaymentTypeId[] = [
+  'account_money',
+  'ticket',
+  'bank_transfer',
+  'atm',
+  'credit_card',
+  'debit_card',
+  'prepaid_card',
+  'digital_currency',
+  'digital_wallet',
+  'voucher_card',
+  'crypto_transfer',
+];
+
+/**
+ * Combina las opciones de la configuración con las del request.
+ * back_urls y metadata se combinan por clave; el resto lo reemplaza el request.
+ */
+export function mergePreferenceOptions(
+  defaults: PreferenceOptions = {},
+  overrides: PreferenceOptions = {}
+): PreferenceOptions {
+  return {
+    ...defaults,
+    ...overrides,
+    back_urls: { ...defaults.back_urls, ...overrides.back_urls },
+    metadata: { ...defaults.metadata, ...overrides.metadata },
+  };
+}
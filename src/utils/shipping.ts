@@ -0,0 +1,25 @@
+// utils/shipping.ts
+
+import { Currency, ShippingDimensions, ShippingOptions } from '../types/index.js';
+import { roundAmount } from './currency.js';
+
+export const SHIPPING_MODES = ['custom', 'me2'] as const;
+
+/**
+ * Costo de envío que se conoce al crear la preferencia. En me2 lo calcula
+ * Mercado Envíos durante el checkout, por eso devuelve null.
+ */
+export function knownShippingCost(shipping: ShippingOptions, currency: Currency): number | null {
+  if (shipping.free_shipping) {
+    return 0;
+  }
+  if (shipping.mode !== 'custom') {
+    return null;
+  }
+  return roundAmount(shipping.cost ?? 0, currency);
+}
+
+// Formato que espera Mercado Envíos: "altoxanchoxlargo,peso" (cm y gramos)
+export function formatDimensions(dimensions: ShippingDimensions): string {
+  return `${dimensions.height}x${dimensions.width}x${dimensions.length},${dimensions.weight}`;
+}
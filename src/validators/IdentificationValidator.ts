@@ -0,0 +1,141 @@
+// validators/IdentificationValidator.ts
+
+import { Currency, IdentificationType } from '../types/index.js';
+
+// Documentos aceptados por MercadoPago en cada país, según la moneda del pago (USD no restringe)
+const TYPES_BY_CURRENCY: Partial<Record<Currency, IdentificationType[]>> = {
+  ARS: ['DNI', 'CUIT', 'CUIL'],
+  BRL: ['CPF', 'CNPJ'],
+  CLP: ['RUT'],
+  COP: ['CC', 'CE', 'NIT'],
+  MXN: ['RFC'],
+  PEN: ['DNI'],
+  UYU: ['CI'],
+};
+
+export const IDENTIFICATION_TYPES: IdentificationType[] = ['DNI', 'CUIT', 'CUIL', 'CPF', 'CNPJ', 'CC', 'CE', 'NIT', 'RUT', 'RFC', 'CI'];
+
+const RFC_CHARSET = '0123456789ABCDEFGHIJKLMN&OPQRSTUVWXYZ Ñ';
+
+// RFC genéricos del SAT (público en general y extranjeros), no cumplen el dígito verificador
+const GENERIC_RFCS = ['XAXX010101000', 'XEXX010101000'];
+
+/**
+ * Formato y dígito verificador de los documentos de identidad de cada país.
+ * Los números se aceptan con o sin separadores (puntos, guiones, espacios).
+ */
+export class IdentificationValidator {
+  static isSupportedType(type: unknown): type is IdentificationType {
+    return typeof type === 'string' && IDENTIFICATION_TYPES.includes(type as IdentificationType);
+  }
+
+  static typesForCurrency(currency: Currency): IdentificationType[] {
+    return TYPES_BY_CURRENCY[currency] || IDENTIFICATION_TYPES;
+  }
+
+  // Quita separadores; RUT y RFC conservan letras (K, homoclave)
+  static normalize(number: string): string {
+    return number.replace(/[\s.\-\/]/g, '').toUpperCase();
+  }
+
+  static isValid(type: IdentificationType, number: string): boolean {
+    const value = this.normalize(number);
+
+    switch (type) {
+      case 'DNI':
+        return /^\d{7,8}$/.test(value);
+      case 'CUIT':
+      case 'CUIL':
+        return /^\d{11}$/.test(value) && this.isValidCuit(value);
+      case 'CPF':
+        return /^\d{11}$/.test(value) && !/^(\d)\1{10}$/.test(value) && this.isValidCpf(value);
+      case 'CNPJ':
+        return /^\d{14}$/.test(value) && !/^(\d)\1{13}$/.test(value) && this.isValidCnpj(value);
+      case 'CC':
+        return /^\d{6,10}$/.test(value);
+      case 'CE':
+        return /^\d{6,7}$/.test(value);
+      case 'NIT':
+        return /^\d{9,10}$/.test(value) && this.isValidNit(value);
+      case 'RUT':
+        return /^\d{7,8}[\dK]$/.test(value) && this.isValidRut(value);
+      case 'RFC':
+        return GENERIC_RFCS.includes(value) || (/^[A-ZÑ&]{3,4}\d{6}[A-Z\d]{3}$/.test(value) && this.isValidRfc(value));
+      case 'CI':
+        return /^\d{7,8}$/.test(value) && this.isValidUruguayanCi(value);
+      default:
+        return false;
+    }
+  }
+
+  // Suma ponderada de dígitos, con los pesos alineados a la derecha
+  private static weightedSum(digits: string, weights: number[]): number {
+    const offset = weights.length - digits.length;
+    return digits.split('').reduce((sum, digit, index) => sum + Number(digit) * weights[index + offset], 0);
+  }
+
+  // Argentina: módulo 11 con pesos 5432765432
+  private static isValidCuit(value: string): boolean {
+    const remainder = 11 - (this.weightedSum(value.slice(0, 10), [5, 4, 3, 2, 7, 6, 5, 4, 3, 2]) % 11);
+    const checkDigit = remainder === 11 ? 0 : remainder === 10 ? 9 : remainder;
+    return checkDigit === Number(value[10]);
+  }
+
+  // Brasil: dos dígitos verificadores módulo 11
+  private static isValidCpf(value: string): boolean {
+    const digit = (length: number) => {
+      const weights = Array.from({ length }, (_, index) => length + 1 - index);
+      const remainder = (this.weightedSum(value.slice(0, length), weights) * 10) % 11;
+      return remainder === 10 ? 0 : remainder;
+    };
+    return digit(9) === Number(value[9]) && digit(10) === Number(value[10]);
+  }
+
+  private static isValidCnpj(value: string): boolean {
+    const digit = (length: number) => {
+      const weights = length === 12 ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2] : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+      const remainder = this.weightedSum(value.slice(0, length), weights) % 11;
+      return remainder < 2 ? 0 : 11 - remainder;
+    };
+    return digit(12) === Number(value[12]) && digit(13) === Number(value[13]);
+  }
+
+  // Colombia: el último dígito es el verificador de la DIAN
+  private static isValidNit(value: string): boolean {
+    const weights = [71, 67, 59, 53, 47, 43, 41, 37, 29, 23, 19, 17, 13, 7, 3];
+    const remainder = this.weightedSum(value.slice(0, -1), weights) % 11;
+    const checkDigit = remainder > 1 ? 11 - remainder : remainder;
+    return checkDigit === Number(value[value.length - 1]);
+  }
+
+  // Chile: módulo 11 con pesos cíclicos 2..7 desde la derecha, 10 se representa con K
+  private static isValidRut(value: string): boolean {
+    const body = value.slice(0, -1);
+    let sum = 0;
+    for (let index = 0; index < body.length; index++) {
+      sum += Number(body[body.length - 1 - index]) * (2 + (index % 6));
+    }
+    const remainder = 11 - (sum % 11);
+    const checkDigit = remainder === 11 ? '0' : remainder === 10 ? 'K' : String(remainder);
+    return checkDigit === value[value.length - 1];
+  }
+
+  // México: el último carácter de la homoclave es el dígito verificador del SAT
+  private static isValidRfc(value: string): boolean {
+    const padded = value.length === 12 ? ` ${value}` : value;
+    let sum = 0;
+    for (let index = 0; index < 12; index++) {
+      sum += RFC_CHARSET.indexOf(padded[index]) * (13 - index);
+    }
+    const remainder = 11 - (sum % 11);
+    const checkDigit = remainder === 11 ? '0' : remainder === 10 ? 'A' : String(remainder);
+    return checkDigit === padded[12];
+  }
+
+  // Uruguay: pesos 2987634 sobre los dígitos, completando con ceros a la izquierda
+  private static isValidUruguayanCi(value: string): boolean {
+    const digits = value.padStart(8, '0');
+    const sum = this.weightedSum(digits.slice(0, 7), [2, 9, 8, 7, 6, 3, 4]);
+    return (10 - (sum % 10)) % 10 === Number(digits[7]);
+  }
+}
@@ -1,101 +1,1045 @@
 // validators/PaymentValidator.ts
 
-import { ValidationResult } from '../types';
+import {
+  Currency,
+  Discount,
+  PaymentRequest,
+  PaymentStatus,
+  PreferenceOptions,
+  TotalsBreakdown,
+  ValidationIssue,
+  ValidationIssueInput,
+  ValidationLocale,
+  ValidationOptions,
+  ValidationResult,
+} from '../types/index.js';
+import {
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  getCurrencyDecimals,
+  hasValidPrecision,
+  isSupportedCurrency,
+} from '../utils/currency.js';
+import {
+  DEFAULT_EXCLUDED_PAYMENT_TYPES,
+  DEFAULT_MAX_INSTALLMENTS,
+  MAX_INSTALLMENTS_LIMIT,
+  PAYMENT_TYPE_IDS,
+  mergePreferenceOptions,
+} from '../utils/preference.js';
+import { SHIPPING_MODES } from '../utils/shipping.js';
+import { DEFAULT_VALIDATION_LOCALE, formatIssue, isSupportedLocale } from './messages.js';
+import { IDENTIFICATION_TYPES, IdentificationValidator } from './IdentificationValidator.js';
+
+const MAX_SEARCH_LIMIT = 100;
+const MAX_STATEMENT_DESCRIPTOR_LENGTH = 22;
+const MAX_IDEMPOTENCY_KEY_LENGTH = 64;
+const MAX_EXTERNAL_REFERENCE_LENGTH = 256;
+const MAX_NAME_LENGTH = 100;
+const MAX_ADDRESS_FIELD_LENGTH = 20;
+const PHONE_NUMBER_PATTERN = /^\+?\d{6,15}$/;
+const MAX_COUPON_CODE_LENGTH = 64;
+const DISCOUNT_TYPES = ['percentage', 'fixed'];
+const MAX_SUBSCRIPTION_REASON_LENGTH = 255;
+const MAX_BILLING_DAY = 28;
+const SUBSCRIPTION_FREQUENCY_TYPES = ['days', 'months'];
+
+const PAYMENT_STATUSES: PaymentStatus[] = [
+  'pending',
+  'approved',
+  'authorized',
+  'in_process',
+  'in_mediation',
+  'rejected',
+  'cancelled',
+  'refunded',
+  'charged_back',
+];
+
+// Acumula los issues ya traducidos de una validación
+class IssueCollector {
+  private issues: ValidationIssue[] = [];
+
+  constructor(
+    private locale: ValidationLocale,
+    private messages?: ValidationOptions['messages']
+  ) {}
+
+  add(code: string, path: string, params?: Record<string, string | number>, labelKey?: string): void {
+    this.issues.push(formatIssue({ code, path, params }, this.locale, this.messages, labelKey));
+  }
+
+  addInput(input: ValidationIssueInput): void {
+    this.issues.push(formatIssue(input, this.locale, this.messages));
+  }
+
+  get size(): number {
+    return this.issues.length;
+  }
+
+  result(): ValidationResult {
+    return {
+      isValid: this.issues.length === 0,
+      errors: this.issues.map(issue => issue.message),
+      issues: this.issues,
+    };
+  }
+}
 
 export class PaymentValidator {
-  static validatePaymentRequest(data: any): ValidationResult {
-    const errors: string[] = [];
+  /**
+   * `preferenceDefaults` son las opciones de preferencia de la configuración;
+   * las combinaciones se validan sobre el resultado de sumarles las del request.
+   */
+  static validatePaymentRequest(
+    data: any,
+    defaultCurrency: Currency = DEFAULT_CURRENCY,
+    options: ValidationOptions = {},
+    preferenceDefaults: PreferenceOptions = {}
+  ): ValidationResult {
+    const issues = this.collector(options);
+
+    // Validar currency (opcional, pero si está presente debe ser soportada)
+    let currency: Currency = defaultCurrency;
+    if (data.currency !== undefined && data.currency !== null) {
+      if (!isSupportedCurrency(data.currency)) {
+        issues.add('invalid_option', 'currency', { options: SUPPORTED_CURRENCIES.join(', ') });
+      } else {
+        currency = data.currency;
+      }
+    }
+
+    // Validar idempotency_key y external_reference (opcionales, pero si están presentes deben ser válidas)
+    this.validateOptionalString(issues, data.idempotency_key, 'idempotency_key', MAX_IDEMPOTENCY_KEY_LENGTH);
+    this.validateOptionalString(issues, data.external_reference, 'external_reference', MAX_EXTERNAL_REFERENCE_LENGTH);
 
     // Validar customer_info
     if (!data.customer_info) {
-      errors.push('customer_info es requerido');
+      issues.add('required', 'customer_info');
     } else {
       if (!data.customer_info.email) {
-        errors.push('Email del cliente es requerido');
+        issues.add('required', 'customer_info.email');
       } else if (!this.isValidEmail(data.customer_info.email)) {
-        errors.push('Email del cliente no es válido');
+        issues.add('invalid_email', 'customer_info.email');
       }
             
       if (!data.customer_info.name) {
-        errors.push('Nombre del cliente es requerido');
+        issues.add('required', 'customer_info.name');
       } else if (data.customer_info.name.trim().length < 2) {
-        errors.push('Nombre del cliente debe tener al menos 2 caracteres');
+        issues.add('too_short', 'customer_info.name', { min: 2 });
       }
+
+      this.validatePayerDetails(issues, data.customer_info, currency);
     }
 
     // Validar items array
     if (!data.items) {
-      errors.push('items es requerido');
+      issues.add('required', 'items');
     } else if (!Array.isArray(data.items)) {
-      errors.push('items debe ser un array');
+      issues.add('not_array', 'items');
     } else if (data.items.length === 0) {
-      errors.push('Debe incluir al menos un item');
+      issues.add('empty_array', 'items');
     } else {
       // Validar cada item individualmente
       data.items.forEach((item: any, index: number) => {
-        const itemErrors = this.validatePaymentItem(item, index);
-        errors.push(...itemErrors);
+        this.validatePaymentItem(issues, item, `items[${index}]`, currency);
       });
     }
 
-    return {
-      isValid: errors.length === 0,
-      errors,
-    };
+    // Validar shipping (opcional)
+    if (data.shipping !== undefined && data.shipping !== null) {
+      this.validateShipping(issues, data.shipping, currency);
+    }
+
+    // Validar descuentos del carrito y cupón (opcionales)
+    if (data.discounts !== undefined && data.discounts !== null) {
+      if (!Array.isArray(data.discounts)) {
+        issues.add('not_array', 'discounts');
+      } else {
+        data.discounts.forEach((discount: any, index: number) => {
+          this.validateDiscount(issues, discount, `discounts[${index}]`, currency);
+        });
+      }
+    }
+    this.validateOptionalString(issues, data.coupon_code, 'coupon_code', MAX_COUPON_CODE_LENGTH);
+
+    // Validar preference (opcional) combinada con los valores por defecto
+    if (data.preference !== undefined && data.preference !== null && !this.isPlainObject(data.preference)) {
+      issues.add('not_object', 'preference');
+    } else {
+      this.validatePreferenceOptions(issues, mergePreferenceOptions(preferenceDefaults, data.preference || {}));
+    }
+
+    return issues.result();
   }
 
-  private static validatePaymentItem(item: any, index: number): string[] {
-    const errors: string[] = [];
-    const itemPrefix = `Item ${index + 1}`;
+  // Datos opcionales del pagador que se envían en la preferencia
+  private static validatePayerDetails(issues: IssueCollector, info: any, currency: Currency): void {
+    this.validateOptionalString(issues, info.surname, 'customer_info.surname', MAX_NAME_LENGTH);
+
+    if (info.phone !== undefined && info.phone !== null) {
+      if (!this.isPlainObject(info.phone)) {
+        issues.add('not_object', 'customer_info.phone');
+      } else {
+        if (info.phone.area_code !== undefined && !/^\+?\d{1,4}$/.test(String(info.phone.area_code))) {
+          issues.add('invalid_phone', 'customer_info.phone.area_code');
+        }
+        if (!info.phone.number) {
+          issues.add('required', 'customer_info.phone.number');
+        } else if (!PHONE_NUMBER_PATTERN.test(String(info.phone.number).replace(/[\s\-()]/g, ''))) {
+          issues.add('invalid_phone', 'customer_info.phone.number');
+        }
+      }
+    }
+
+    if (info.identification !== undefined && info.identification !== null) {
+      this.validateIdentification(issues, info.identification, 'customer_info.identification', currency);
+    }
+
+    if (info.address !== undefined && info.address !== null) {
+      if (!this.isPlainObject(info.address)) {
+        issues.add('not_object', 'customer_info.address');
+      } else {
+        if (!info.address.street_name || typeof info.address.street_name !== 'string') {
+          issues.add('required', 'customer_info.address.street_name');
+        }
+        this.validateOptionalString(issues, info.address.street_number, 'customer_info.address.street_number', MAX_ADDRESS_FIELD_LENGTH);
+        this.validateOptionalString(issues, info.address.zip_code, 'customer_info.address.zip_code', MAX_ADDRESS_FIELD_LENGTH);
+      }
+    }
+  }
 
+  /**
+   * Tipo de documento del país de la moneda y número con formato y dígito verificador válidos.
+   * Con `allowUnknownTypes` (Checkout API) los tipos que no conocemos solo se validan como requeridos.
+   */
+  private static validateIdentification(
+    issues: IssueCollector,
+    identification: any,
+    path: string,
+    currency: Currency | null,
+    allowUnknownTypes = false
+  ): void {
+    if (!this.isPlainObject(identification)) {
+      issues.add('not_object', path);
+      return;
+    }
+
+    const { type, number } = identification;
+    if (!type || typeof type !== 'string') {
+      issues.add('required', `${path}.type`);
+    }
+    if (!number || typeof number !== 'string') {
+      issues.add('required', `${path}.number`);
+    }
+    if (!type || typeof type !== 'string' || !number || typeof number !== 'string') {
+      return;
+    }
+
+    if (!IdentificationValidator.isSupportedType(type)) {
+      if (!allowUnknownTypes) {
+        issues.add('invalid_option', `${path}.type`, { options: IDENTIFICATION_TYPES.join(', ') });
+      }
+      return;
+    }
+
+    const allowedTypes = currency ? IdentificationValidator.typesForCurrency(currency) : IDENTIFICATION_TYPES;
+    if (!allowedTypes.includes(type)) {
+      issues.add('identification_type_not_allowed', `${path}.type`, {
+        type,
+        currency: currency || '',
+        options: allowedTypes.join(', '),
+      });
+    } else if (!IdentificationValidator.isValid(type, number)) {
+      issues.add('invalid_identification', `${path}.number`, { type });
+    }
+  }
+
+  private static validatePaymentItem(issues: IssueCollector, item: any, path: string, currency: Currency): void {
     // Validar title (obligatorio)
     if (!item.title) {
-      errors.push(`${itemPrefix}: título es requerido`);
+      issues.add('required', `${path}.title`);
     } else if (typeof item.title !== 'string') {
-      errors.push(`${itemPrefix}: título debe ser una cadena de texto`);
+      issues.add('not_string', `${path}.title`);
     } else if (item.title.trim().length < 3) {
-      errors.push(`${itemPrefix}: título debe tener al menos 3 caracteres`);
+      issues.add('too_short', `${path}.title`, { min: 3 });
     }
 
     // Validar quantity (obligatorio)
     if (item.quantity === undefined || item.quantity === null) {
-      errors.push(`${itemPrefix}: cantidad es requerida`);
+      issues.add('required', `${path}.quantity`);
     } else if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
-      errors.push(`${itemPrefix}: cantidad debe ser un número entero mayor a 0`);
+      issues.add('not_positive_integer', `${path}.quantity`);
     }
 
     // Validar unit_price (obligatorio)
     if (item.unit_price === undefined || item.unit_price === null) {
-      errors.push(`${itemPrefix}: precio unitario es requerido`);
+      issues.add('required', `${path}.unit_price`);
     } else if (typeof item.unit_price !== 'number' || item.unit_price <= 0) {
-      errors.push(`${itemPrefix}: precio unitario debe ser un número mayor a 0`);
-    } else if (!Number.isInteger(item.unit_price)) {
-      errors.push(`${itemPrefix}: precio unitario debe ser un número entero`);
+      issues.add('not_positive_number', `${path}.unit_price`);
+    } else if (!hasValidPrecision(item.unit_price, currency)) {
+      this.addPrecisionIssue(issues, `${path}.unit_price`, currency);
     }
 
     // Validar description (opcional, pero si está presente debe ser válida)
     if (item.description !== undefined && item.description !== null) {
       if (typeof item.description !== 'string') {
-        errors.push(`${itemPrefix}: descripción debe ser una cadena de texto`);
+        issues.add('not_string', `${path}.description`);
       } else if (item.description.trim().length > 0 && item.description.trim().length < 5) {
-        errors.push(`${itemPrefix}: descripción debe tener al menos 5 caracteres o estar vacía`);
+        issues.add('too_short', `${path}.description`, { min: 5 });
       }
     }
 
     // Validar id (opcional, pero si está presente debe ser válido)
     if (item.id !== undefined && item.id !== null) {
       if (typeof item.id !== 'string') {
-        errors.push(`${itemPrefix}: id debe ser una cadena de texto`);
+        issues.add('not_string', `${path}.id`);
       } else if (item.id.trim().length === 0) {
-        errors.push(`${itemPrefix}: id no puede estar vacío si se proporciona`);
+        issues.add('empty_string', `${path}.id`);
+      }
+    }
+
+    // Validar discount y tax_rate (opcionales)
+    if (item.discount !== undefined && item.discount !== null) {
+      this.validateDiscount(issues, item.discount, `${path}.discount`, currency);
+    }
+
+    if (item.tax_rate !== undefined && item.tax_rate !== null && !this.isPercentage(item.tax_rate)) {
+      issues.add('invalid_percentage', `${path}.tax_rate`);
+    }
+  }
+
+  // percentage: entre 0 y 100; fixed: monto positivo con los decimales de la moneda
+  private static validateDiscount(issues: IssueCollector, discount: any, path: string, currency: Currency): void {
+    if (!this.isPlainObject(discount)) {
+      issues.add('not_object', path);
+      return;
+    }
+
+    if (!DISCOUNT_TYPES.includes(discount.type)) {
+      issues.add('invalid_option', `${path}.type`, { options: DISCOUNT_TYPES.join(', ') });
+    }
+
+    if (typeof discount.value !== 'number' || !Number.isFinite(discount.value) || discount.value <= 0) {
+      issues.add('not_positive_number', `${path}.value`);
+    } else if (discount.type === 'percentage' && !this.isPercentage(discount.value)) {
+      issues.add('invalid_percentage', `${path}.value`);
+    } else if (discount.type === 'fixed' && !hasValidPrecision(discount.value, currency)) {
+      this.addPrecisionIssue(issues, `${path}.value`, currency);
+    }
+
+    this.validateOptionalString(issues, discount.code, `${path}.code`, MAX_COUPON_CODE_LENGTH);
+    this.validateOptionalString(issues, discount.description, `${path}.description`, MAX_NAME_LENGTH);
+  }
+
+  /**
+   * Valida el descuento devuelto por config.couponResolver para `code`;
+   * null significa que el cupón no existe o no aplica a este carrito.
+   */
+  static validateCoupon(
+    code: string,
+    discount: Discount | null,
+    currency: Currency,
+    options: ValidationOptions = {}
+  ): ValidationResult {
+    const issues = this.collector(options);
+    if (!discount) {
+      issues.add('invalid_coupon', 'coupon_code', { code });
+    } else {
+      this.validateDiscount(issues, discount, 'coupon_code', currency);
+    }
+    return issues.result();
+  }
+
+  /**
+   * Valida el vendedor de un pago de marketplace; la comisión no puede superar el total a cobrar.
+   * Sin `charge` (capturas, cancelaciones, reembolsos) solo se validan sus credenciales.
+   */
+  static validateMarketplaceSeller(
+    seller: any,
+    charge: { total: number; currency: Currency } | null,
+    options: ValidationOptions = {}
+  ): ValidationResult {
+    const issues = this.collector(options);
+
+    if (!this.isPlainObject(seller)) {
+      issues.add('not_object', 'seller');
+      return issues.result();
+    }
+
+    if (!seller.access_token || typeof seller.access_token !== 'string') {
+      issues.add('required', 'seller.access_token');
+    }
+
+    this.validateOptionalString(issues, seller.id, 'seller.id', MAX_EXTERNAL_REFERENCE_LENGTH);
+
+    const fee = seller.marketplace_fee;
+    if (charge && fee !== undefined) {
+      const { total, currency } = charge;
+      if (typeof fee !== 'number' || !Number.isFinite(fee) || fee <= 0) {
+        issues.add('not_positive_number', 'seller.marketplace_fee');
+      } else if (!hasValidPrecision(fee, currency)) {
+        this.addPrecisionIssue(issues, 'seller.marketplace_fee', currency);
+      } else if (fee > total) {
+        issues.add('exceeds_limit', 'seller.marketplace_fee', { amount: fee, limit: total, currency });
+      }
+    }
+
+    return issues.result();
+  }
+
+  /**
+   * Un carrito que queda en 0 tras los descuentos no se puede cobrar con MercadoPago.
+   * Con `request` también aplica las reglas del comercio sobre el mismo desglose que se cobra.
+   */
+  static validateTotals(totals: TotalsBreakdown, options: ValidationOptions = {}, request?: PaymentRequest): ValidationResult {
+    const issues = this.collector(options);
+    if (totals.total <= 0) {
+      issues.add('zero_total', 'total', { currency: totals.currency });
+    } else if (request) {
+      this.applyRules(issues, request, totals, options);
+    }
+    return issues.result();
+  }
+
+  private static validateShipping(issues: IssueCollector, shipping: any, currency: Currency): void {
+    const path = 'shipping';
+
+    if (!this.isPlainObject(shipping)) {
+      issues.add('not_object', path);
+      return;
+    }
+
+    if (!SHIPPING_MODES.includes(shipping.mode)) {
+      issues.add('invalid_option', `${path}.mode`, { options: SHIPPING_MODES.join(', ') });
+    }
+
+    for (const key of ['free_shipping', 'local_pickup']) {
+      if (shipping[key] !== undefined && typeof shipping[key] !== 'boolean') {
+        issues.add('not_boolean', `${path}.${key}`);
+      }
+    }
+
+    // custom: costo fijo salvo envío gratis; me2: el costo lo calcula Mercado Envíos
+    if (shipping.cost !== undefined && shipping.cost !== null) {
+      if (shipping.mode === 'me2') {
+        issues.add('not_allowed_for_mode', `${path}.cost`, { mode: 'me2' });
+      } else if (typeof shipping.cost !== 'number' || !Number.isFinite(shipping.cost) || shipping.cost <= 0) {
+        issues.add('not_positive_number', `${path}.cost`);
+      } else if (!hasValidPrecision(shipping.cost, currency)) {
+        this.addPrecisionIssue(issues, `${path}.cost`, currency);
+      } else if (shipping.free_shipping === true) {
+        issues.add('free_shipping_with_cost', `${path}.cost`);
+      }
+    } else if (shipping.mode === 'custom' && shipping.free_shipping !== true) {
+      issues.add('required', `${path}.cost`);
+    }
+
+    if (shipping.dimensions !== undefined && shipping.dimensions !== null) {
+      if (!this.isPlainObject(shipping.dimensions)) {
+        issues.add('not_object', `${path}.dimensions`);
+      } else {
+        for (const key of ['height', 'width', 'length', 'weight']) {
+          const value = shipping.dimensions[key];
+          if (!Number.isInteger(value) || value <= 0) {
+            issues.add('not_positive_integer', `${path}.dimensions.${key}`);
+          }
+        }
+      }
+    } else if (shipping.mode === 'me2') {
+      issues.add('required', `${path}.dimensions`);
+    }
+
+    const address = shipping.receiver_address;
+    if (address !== undefined && address !== null) {
+      if (!this.isPlainObject(address)) {
+        issues.add('not_object', `${path}.receiver_address`);
+      } else {
+        for (const key of ['zip_code', 'street_name']) {
+          if (!address[key] || typeof address[key] !== 'string') {
+            issues.add('required', `${path}.receiver_address.${key}`);
+          }
+        }
+        for (const key of ['street_number', 'floor', 'apartment', 'city_name', 'state_name', 'country_name']) {
+          this.validateOptionalString(issues, address[key], `${path}.receiver_address.${key}`, MAX_NAME_LENGTH);
+        }
       }
     }
+  }
+
+  private static validatePreferenceOptions(issues: IssueCollector, preference: any): void {
+    const path = 'preference';
+
+    if (!this.isPlainObject(preference.back_urls)) {
+      issues.add('not_object', `${path}.back_urls`);
+    } else {
+      for (const key of ['success', 'failure', 'pending']) {
+        const url = preference.back_urls[key];
+        if (url !== undefined && !this.isHttpUrl(url)) {
+          issues.add('invalid_url', `${path}.back_urls.${key}`);
+        }
+      }
+    }
+
+    if (preference.auto_return !== undefined && !['approved', 'all', false].includes(preference.auto_return)) {
+      issues.add('invalid_option', `${path}.auto_return`, { options: 'approved, all, false' });
+    }
+
+    if (preference.excluded_payment_methods !== undefined) {
+      if (!Array.isArray(preference.excluded_payment_methods)) {
+        issues.add('not_array', `${path}.excluded_payment_methods`);
+      } else {
+        preference.excluded_payment_methods.forEach((id: any, index: number) => {
+          if (typeof id !== 'string' || id.trim().length === 0) {
+            issues.add('empty_string', `${path}.excluded_payment_methods[${index}]`);
+          }
+        });
+      }
+    }
+
+    const excludedTypes: any[] = preference.excluded_payment_types ?? DEFAULT_EXCLUDED_PAYMENT_TYPES;
+    if (!Array.isArray(excludedTypes)) {
+      issues.add('not_array', `${path}.excluded_payment_types`);
+    } else {
+      excludedTypes.forEach((id, index) => {
+        if (!PAYMENT_TYPE_IDS.includes(id)) {
+          issues.add('invalid_option', `${path}.excluded_payment_types[${index}]`, { options: PAYMENT_TYPE_IDS.join(', ') });
+        }
+      });
+      if (PAYMENT_TYPE_IDS.every(id => excludedTypes.includes(id))) {
+        issues.add('all_payment_types_excluded', `${path}.excluded_payment_types`);
+      }
+    }
+
+    let installmentsValid = true;
+    for (const key of ['default_installments', 'max_installments']) {
+      const value = preference[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1 || value > MAX_INSTALLMENTS_LIMIT)) {
+        issues.add('out_of_range', `${path}.${key}`, { min: 1, max: MAX_INSTALLMENTS_LIMIT });
+        installmentsValid = false;
+      }
+    }
+
+    // Combinaciones: las cuotas por defecto no superan el máximo y las cuotas requieren tarjeta de crédito
+    if (installmentsValid) {
+      const maxInstallments = preference.max_installments ?? DEFAULT_MAX_INSTALLMENTS;
+      if (preference.default_installments !== undefined && preference.default_installments > maxInstallments) {
+        issues.add('exceeds_max_installments', `${path}.default_installments`, { max: maxInstallments });
+      }
+
+      const creditCardExcluded = Array.isArray(excludedTypes) && excludedTypes.includes('credit_card');
+      const installmentsKey = preference.max_installments !== undefined ? 'max_installments' : 'default_installments';
+      if (creditCardExcluded && (preference[installmentsKey] ?? 1) > 1) {
+        issues.add('installments_require_credit_card', `${path}.${installmentsKey}`);
+      }
+    }
+
+    this.validateOptionalString(issues, preference.statement_descriptor, `${path}.statement_descriptor`, MAX_STATEMENT_DESCRIPTOR_LENGTH);
+
+    for (const key of ['binary_mode', 'expires']) {
+      if (preference[key] !== undefined && typeof preference[key] !== 'boolean') {
+        issues.add('not_boolean', `${path}.${key}`);
+      }
+    }
+
+    if (!this.isPlainObject(preference.metadata)) {
+      issues.add('not_object', `${path}.metadata`);
+    }
+
+    if (preference.expiration_minutes !== undefined && (!Number.isInteger(preference.expiration_minutes) || preference.expiration_minutes <= 0)) {
+      issues.add('not_positive_integer', `${path}.expiration_minutes`);
+    }
+  }
+
+  /**
+   * Valida un PaymentIntent para pagos directos con tarjeta (Checkout API)
+   */
+  static validatePaymentIntent(intent: any, options: ValidationOptions = {}): ValidationResult {
+    const issues = this.collector(options);
+
+    if (!intent) {
+      issues.add('required', 'intent');
+      return issues.result();
+    }
+
+    if (!intent.id || typeof intent.id !== 'string' || intent.id.trim().length === 0) {
+      issues.add('required', 'id');
+    }
+
+    if (!intent.token || typeof intent.token !== 'string') {
+      issues.add('required', 'token');
+    }
+
+    if (!intent.payment_method_id || typeof intent.payment_method_id !== 'string') {
+      issues.add('required', 'payment_method_id');
+    }
+
+    let currency: Currency | null = null;
+    if (!isSupportedCurrency(intent.currency)) {
+      issues.add('invalid_option', 'currency', { options: SUPPORTED_CURRENCIES.join(', ') });
+    } else {
+      currency = intent.currency;
+    }
+
+    if (typeof intent.amount !== 'number' || !Number.isFinite(intent.amount) || intent.amount <= 0) {
+      issues.add('not_positive_number', 'amount');
+    } else if (currency && !hasValidPrecision(intent.amount, currency)) {
+      this.addPrecisionIssue(issues, 'amount', currency);
+    }
+
+    if (intent.installments !== undefined && (!Number.isInteger(intent.installments) || intent.installments < 1)) {
+      issues.add('not_positive_integer', 'installments');
+    }
+
+    if (intent.statement_descriptor !== undefined) {
+      this.validateOptionalString(issues, intent.statement_descriptor, 'statement_descriptor', MAX_STATEMENT_DESCRIPTOR_LENGTH);
+    }
+
+    if (!intent.payer?.email) {
+      issues.add('required', 'payer.email');
+    } else if (!this.isValidEmail(intent.payer.email)) {
+      issues.add('invalid_email', 'payer.email');
+    }
+
+    const identification = intent.payer?.identification;
+    if (identification !== undefined) {
+      this.validateIdentification(issues, identification, 'payer.identification', currency, true);
+    }
+
+    return issues.result();
+  }
+
+  static validatePaymentId(paymentId: any, options: ValidationOptions = {}): ValidationResult {
+    return this.validateResourceId(paymentId, 'paymentId', options);
+  }
+
+  // Id de un recurso de MercadoPago (plan, suscripción...) recibido como parámetro
+  static validateResourceId(id: any, path: string, options: ValidationOptions = {}): ValidationResult {
+    const issues = this.collector(options);
+    if (!id || typeof id !== 'string') {
+      issues.add('required', path);
+    }
+    return issues.result();
+  }
+
+  /**
+   * Valida un monto de reembolso parcial contra el saldo reembolsable del pago
+   */
+  static validateRefundAmount(
+    amount: any,
+    remainingAmount: number,
+    currency: Currency,
+    options: ValidationOptions = {}
+  ): ValidationResult {
+    return this.validateAmountWithinLimit(amount, remainingAmount, currency, 'refund_amount', options);
+  }
+
+  /**
+   * Valida un monto de captura parcial contra el monto autorizado del pago
+   */
+  static validateCaptureAmount(
+    amount: any,
+    authorizedAmount: number,
+    currency: Currency,
+    options: ValidationOptions = {}
+  ): ValidationResult {
+    return this.validateAmountWithinLimit(amount, authorizedAmount, currency, 'capture_amount', options);
+  }
+
+  private static validateAmountWithinLimit(
+    amount: any,
+    limit: number,
+    currency: Currency,
+    labelKey: string,
+    options: ValidationOptions
+  ): ValidationResult {
+    const issues = this.collector(options);
+
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+      issues.add('not_positive_number', 'amount', undefined, labelKey);
+    } else if (!hasValidPrecision(amount, currency)) {
+      issues.add('invalid_precision', 'amount', { decimals: getCurrencyDecimals(currency), currency }, labelKey);
+    } else if (amount > limit) {
+      issues.add('exceeds_limit', 'amount', { amount, limit, currency }, labelKey);
+    }
+
+    return issues.result();
+  }
+
+  /**
+   * Valida los filtros de búsqueda de pagos
+   */
+  static validatePaymentFilters(filters: any, options: ValidationOptions = {}): ValidationResult {
+    const issues = this.collector(options);
+
+    if (filters.limit !== undefined && (!Number.isInteger(filters.limit) || filters.limit < 1 || filters.limit > MAX_SEARCH_LIMIT)) {
+      issues.add('out_of_range', 'limit', { min: 1, max: MAX_SEARCH_LIMIT });
+    }
+
+    if (filters.offset !== undefined && (!Number.isInteger(filters.offset) || filters.offset < 0)) {
+      issues.add('below_minimum', 'offset', { min: 0 });
+    }
+
+    if (filters.status !== undefined && !PAYMENT_STATUSES.includes(filters.status)) {
+      issues.add('invalid_option', 'status', { options: PAYMENT_STATUSES.join(', ') });
+    }
+
+    if (filters.external_reference !== undefined && (typeof filters.external_reference !== 'string' || filters.external_reference.trim().length === 0)) {
+      issues.add('empty_string', 'external_reference');
+    }
+
+    if (filters.sort !== undefined && !['date_created', 'date_approved'].includes(filters.sort)) {
+      issues.add('invalid_option', 'sort', { options: 'date_created, date_approved' });
+    }
+
+    if (filters.criteria !== undefined && !['asc', 'desc'].includes(filters.criteria)) {
+      issues.add('invalid_option', 'criteria', { options: 'asc, desc' });
+    }
+
+    const dateFrom = filters.date_from !== undefined ? Date.parse(filters.date_from) : null;
+    const dateTo = filters.date_to !== undefined ? Date.parse(filters.date_to) : null;
+
+    if (dateFrom !== null && Number.isNaN(dateFrom)) {
+      issues.add('invalid_date', 'date_from');
+    }
+    if (dateTo !== null && Number.isNaN(dateTo)) {
+      issues.add('invalid_date', 'date_to');
+    }
+    if (dateFrom !== null && dateTo !== null && dateFrom > dateTo) {
+      issues.add('invalid_date_range', 'date_from', { other: 'date_to' });
+    }
+
+    return issues.result();
+  }
+
+  /**
+   * Valida un preapproval_plan. Con `partial` (actualización) todos los campos son opcionales.
+   */
+  static validateSubscriptionPlan(
+    data: any,
+    defaultCurrency: Currency = DEFAULT_CURRENCY,
+    options: ValidationOptions = {},
+    partial = false
+  ): ValidationResult {
+    const issues = this.collector(options);
+
+    if (!this.isPlainObject(data)) {
+      issues.add('not_object', 'plan');
+      return issues.result();
+    }
+
+    if (!partial && !data.reason) {
+      issues.add('required', 'reason');
+    } else {
+      this.validateOptionalString(issues, data.reason, 'reason', MAX_SUBSCRIPTION_REASON_LENGTH);
+    }
+
+    if (data.back_url !== undefined && !this.isHttpUrl(data.back_url)) {
+      issues.add('invalid_url', 'back_url');
+    }
+
+    if (data.auto_recurring === undefined || data.auto_recurring === null) {
+      if (!partial) {
+        issues.add('required', 'auto_recurring');
+      }
+    } else {
+      this.validateAutoRecurring(issues, data.auto_recurring, defaultCurrency, partial, false);
+    }
+
+    const allowed = data.payment_methods_allowed;
+    if (allowed !== undefined && allowed !== null) {
+      if (!this.isPlainObject(allowed)) {
+        issues.add('not_object', 'payment_methods_allowed');
+      } else {
+        if (allowed.payment_types !== undefined) {
+          if (!Array.isArray(allowed.payment_types)) {
+            issues.add('not_array', 'payment_methods_allowed.payment_types');
+          } else {
+            allowed.payment_types.forEach((id: any, index: number) => {
+              if (!PAYMENT_TYPE_IDS.includes(id)) {
+                issues.add('invalid_option', `payment_methods_allowed.payment_types[${index}]`, { options: PAYMENT_TYPE_IDS.join(', ') });
+              }
+            });
+          }
+        }
+        if (allowed.payment_methods !== undefined) {
+          if (!Array.isArray(allowed.payment_methods)) {
+            issues.add('not_array', 'payment_methods_allowed.payment_methods');
+          } else {
+            allowed.payment_methods.forEach((id: any, index: number) => {
+              if (typeof id !== 'string' || id.trim().length === 0) {
+                issues.add('empty_string', `payment_methods_allowed.payment_methods[${index}]`);
+              }
+            });
+          }
+        }
+      }
+    }
+
+    return issues.result();
+  }
+
+  /**
+   * Valida un preapproval: con plan hereda sus términos y requiere la tarjeta;
+   * sin plan requiere reason y auto_recurring.
+   */
+  static validateSubscription(
+    data: any,
+    defaultCurrency: Currency = DEFAULT_CURRENCY,
+    options: ValidationOptions = {}
+  ): ValidationResult {
+    const issues = this.collector(options);
+
+    if (!this.isPlainObject(data)) {
+      issues.add('not_object', 'subscription');
+      return issues.result();
+    }
+
+    if (!data.payer_email) {
+      issues.add('required', 'payer_email');
+    } else if (!this.isValidEmail(data.payer_email)) {
+      issues.add('invalid_email', 'payer_email');
+    }
+
+    this.validateOptionalString(issues, data.preapproval_plan_id, 'preapproval_plan_id', MAX_EXTERNAL_REFERENCE_LENGTH);
+    this.validateOptionalString(issues, data.card_token_id, 'card_token_id', MAX_EXTERNAL_REFERENCE_LENGTH);
+    this.validateOptionalString(issues, data.external_reference, 'external_reference', MAX_EXTERNAL_REFERENCE_LENGTH);
+
+    if (data.back_url !== undefined && !this.isHttpUrl(data.back_url)) {
+      issues.add('invalid_url', 'back_url');
+    }
+
+    if (data.status !== undefined && !['pending', 'authorized'].includes(data.status)) {
+      issues.add('invalid_option', 'status', { options: 'pending, authorized' });
+    }
+
+    // La suscripción a un plan y el alta ya autorizada se cobran con la tarjeta tokenizada
+    if ((data.preapproval_plan_id || data.status === 'authorized') && !data.card_token_id) {
+      issues.add('required', 'card_token_id');
+    }
+
+    if (data.preapproval_plan_id) {
+      if (data.auto_recurring !== undefined) {
+        issues.add('not_allowed_with_plan', 'auto_recurring');
+      }
+      this.validateOptionalString(issues, data.reason, 'reason', MAX_SUBSCRIPTION_REASON_LENGTH);
+    } else {
+      if (!data.reason) {
+        issues.add('required', 'reason');
+      } else {
+        this.validateOptionalString(issues, data.reason, 'reason', MAX_SUBSCRIPTION_REASON_LENGTH);
+      }
+
+      if (data.auto_recurring === undefined || data.auto_recurring === null) {
+        issues.add('required', 'auto_recurring');
+      } else {
+        this.validateAutoRecurring(issues, data.auto_recurring, defaultCurrency, false, true);
+      }
+    }
+
+    return issues.result();
+  }
+
+  /**
+   * Valida los cambios a una suscripción existente; el monto usa la moneda de la suscripción
+   */
+  static validateSubscriptionUpdate(data: any, currency: Currency, options: ValidationOptions = {}): ValidationResult {
+    const issues = this.collector(options);
+
+    if (!this.isPlainObject(data)) {
+      issues.add('not_object', 'subscription');
+      return issues.result();
+    }
+
+    this.validateOptionalString(issues, data.reason, 'reason', MAX_SUBSCRIPTION_REASON_LENGTH);
+    this.validateOptionalString(issues, data.card_token_id, 'card_token_id', MAX_EXTERNAL_REFERENCE_LENGTH);
+    this.validateOptionalString(issues, data.external_reference, 'external_reference', MAX_EXTERNAL_REFERENCE_LENGTH);
+
+    if (data.back_url !== undefined && !this.isHttpUrl(data.back_url)) {
+      issues.add('invalid_url', 'back_url');
+    }
+
+    if (data.transaction_amount !== undefined) {
+      this.validateSubscriptionAmount(issues, data.transaction_amount, 'transaction_amount', currency);
+    }
+
+    return issues.result();
+  }
+
+  private static validateAutoRecurring(
+    issues: IssueCollector,
+    autoRecurring: any,
+    defaultCurrency: Currency,
+    partial: boolean,
+    allowDates: boolean
+  ): void {
+    const path = 'auto_recurring';
+
+    if (!this.isPlainObject(autoRecurring)) {
+      issues.add('not_object', path);
+      return;
+    }
+
+    let currency = defaultCurrency;
+    if (autoRecurring.currency !== undefined) {
+      if (!isSupportedCurrency(autoRecurring.currency)) {
+        issues.add('invalid_option', `${path}.currency`, { options: SUPPORTED_CURRENCIES.join(', ') });
+      } else {
+        currency = autoRecurring.currency;
+      }
+    }
+
+    if (autoRecurring.transaction_amount !== undefined) {
+      this.validateSubscriptionAmount(issues, autoRecurring.transaction_amount, `${path}.transaction_amount`, currency);
+    } else if (!partial) {
+      issues.add('required', `${path}.transaction_amount`);
+    }
+
+    if (autoRecurring.frequency !== undefined || !partial) {
+      this.validateFrequency(issues, autoRecurring, path);
+    }
+
+    if (autoRecurring.repetitions !== undefined && (!Number.isInteger(autoRecurring.repetitions) || autoRecurring.repetitions <= 0)) {
+      issues.add('not_positive_integer', `${path}.repetitions`);
+    }
+
+    if (autoRecurring.billing_day !== undefined) {
+      const { billing_day } = autoRecurring;
+      if (!Number.isInteger(billing_day) || billing_day < 1 || billing_day > MAX_BILLING_DAY) {
+        issues.add('out_of_range', `${path}.billing_day`, { min: 1, max: MAX_BILLING_DAY });
+      } else if (autoRecurring.frequency_type !== undefined && autoRecurring.frequency_type !== 'months') {
+        issues.add('billing_day_requires_months', `${path}.billing_day`);
+      }
+    }
+
+    if (autoRecurring.billing_day_proportional !== undefined) {
+      if (typeof autoRecurring.billing_day_proportional !== 'boolean') {
+        issues.add('not_boolean', `${path}.billing_day_proportional`);
+      } else if (autoRecurring.billing_day_proportional && autoRecurring.billing_day === undefined) {
+        issues.add('required', `${path}.billing_day`);
+      }
+    }
+
+    if (autoRecurring.free_trial !== undefined && autoRecurring.free_trial !== null) {
+      if (!this.isPlainObject(autoRecurring.free_trial)) {
+        issues.add('not_object', `${path}.free_trial`);
+      } else {
+        this.validateFrequency(issues, autoRecurring.free_trial, `${path}.free_trial`);
+      }
+    }
+
+    if (!allowDates) {
+      for (const key of ['start_date', 'end_date']) {
+        if (autoRecurring[key] !== undefined) {
+          issues.add('not_allowed_with_plan', `${path}.${key}`);
+        }
+      }
+      return;
+    }
+
+    const startDate = autoRecurring.start_date !== undefined ? Date.parse(autoRecurring.start_date) : null;
+    const endDate = autoRecurring.end_date !== undefined ? Date.parse(autoRecurring.end_date) : null;
+
+    if (startDate !== null && Number.isNaN(startDate)) {
+      issues.add('invalid_date', `${path}.start_date`);
+    }
+    if (endDate !== null && Number.isNaN(endDate)) {
+      issues.add('invalid_date', `${path}.end_date`);
+    }
+    if (startDate !== null && endDate !== null && startDate >= endDate) {
+      issues.add('invalid_date_range', `${path}.start_date`, { other: 'end_date' });
+    }
+  }
+
+  private static validateFrequency(issues: IssueCollector, value: any, path: string): void {
+    if (!Number.isInteger(value.frequency) || value.frequency <= 0) {
+      issues.add('not_positive_integer', `${path}.frequency`);
+    }
+    if (!SUBSCRIPTION_FREQUENCY_TYPES.includes(value.frequency_type)) {
+      issues.add('invalid_option', `${path}.frequency_type`, { options: SUBSCRIPTION_FREQUENCY_TYPES.join(', ') });
+    }
+  }
+
+  private static validateSubscriptionAmount(issues: IssueCollector, amount: any, path: string, currency: Currency): void {
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+      issues.add('not_positive_number', path);
+    } else if (!hasValidPrecision(amount, currency)) {
+      this.addPrecisionIssue(issues, path, currency);
+    }
+  }
+
+  private static collector(options: ValidationOptions): IssueCollector {
+    return new IssueCollector(this.resolveLocale(options), options.messages);
+  }
+
+  // El locale puede venir del request (Accept-Language), uno no soportado cae al por defecto
+  private static resolveLocale(options: ValidationOptions): ValidationLocale {
+    return isSupportedLocale(options.locale) ? options.locale : DEFAULT_VALIDATION_LOCALE;
+  }
+
+  // Cadena opcional: si está presente no puede estar vacía ni superar `maxLength`
+  private static validateOptionalString(issues: IssueCollector, value: any, path: string, maxLength: number): void {
+    if (value === undefined || value === null) {
+      return;
+    }
+
+    if (typeof value !== 'string') {
+      issues.add('not_string', path);
+    } else if (value.trim().length === 0) {
+      issues.add('empty_string', path);
+    } else if (value.length > maxLength) {
+      issues.add('too_long', path, { max: maxLength });
+    }
+  }
+
+  private static addPrecisionIssue(issues: IssueCollector, path: string, currency: Currency): void {
+    const decimals = getCurrencyDecimals(currency);
+    if (decimals === 0) {
+      issues.add('decimals_not_allowed', path, { currency });
+    } else {
+      issues.add('invalid_precision', path, { decimals, currency });
+    }
+  }
+
+  private static applyRules(
+    issues: IssueCollector,
+    request: PaymentRequest,
+    totals: TotalsBreakdown,
+    options: ValidationOptions
+  ): void {
+    const context = { currency: totals.currency, locale: this.resolveLocale(options), totals };
+
+    for (const rule of options.rules || []) {
+      const result = rule(request, context);
+      if (!result) {
+        continue;
+      }
+      (Array.isArray(result) ? result : [result]).forEach(input => issues.addInput(input));
+    }
+  }
+
+  private static isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static isHttpUrl(value: unknown): boolean {
+    if (typeof value !== 'string') {
+      return false;
+    }
+    try {
+      const url = new URL(value);
+      return url.protocol === 'https:' || url.protocol === 'http:';
+    } catch {
+      return false;
+    }
+  }
 
-    return errors;
+  private static isPercentage(value: unknown): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
   }
 
   private static isValidEmail(email: string): boolean {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     return emailRegex.test(email);
   }
-}
\ No newline at end of file
+}
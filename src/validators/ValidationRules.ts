@@ -0,0 +1,33 @@
+// validators/ValidationRules.ts
+
+import { ValidationIssueInput, ValidationRule } from '../types/index.js';
+
+/**
+ * Reglas de comercio listas para usar en `validation.rules`.
+ * Una regla propia es cualquier función (request, { currency, locale, totals }) => issue | issue[] | null
+ */
+export class ValidationRules {
+  // Rechaza carritos cuyo total cobrado (descuentos, cupón, impuestos y envío) supere `max`, en la moneda del request
+  static maxCartTotal(max: number): ValidationRule {
+    return (_request, { currency, totals }) => {
+      const total = totals.total;
+      if (total <= max) {
+        return null;
+      }
+      return { code: 'cart_total_exceeded', path: 'items', params: { total, max, currency } };
+    };
+  }
+
+  // Solo acepta items cuyo id esté en la lista; los items sin id se rechazan
+  static allowedItemIds(ids: Iterable<string>): ValidationRule {
+    const allowed = new Set(ids);
+
+    return request =>
+      request.items.reduce<ValidationIssueInput[]>((issues, item, index) => {
+        if (!item.id || !allowed.has(item.id)) {
+          issues.push({ code: 'item_not_allowed', path: `items[${index}].id`, params: { id: item.id || item.title } });
+        }
+        return issues;
+      }, []);
+  }
+}
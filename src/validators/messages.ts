@@ -0,0 +1,315 @@
+// validators/messages.ts
+
+import { ValidationIssue, ValidationIssueInput, ValidationLocale } from '../types/index.js';
+
+export const DEFAULT_VALIDATION_LOCALE: ValidationLocale = 'es';
+
+type Catalog = Record<string, string>;
+
+// Plantillas por código; {field} es la etiqueta traducida del campo y el resto sale de params
+export const MESSAGES: Record<ValidationLocale, Catalog> = {
+  es: {
+    required: 'El campo {field} es obligatorio',
+    not_string: 'El campo {field} debe ser una cadena de texto',
+    empty_string: 'El campo {field} no puede estar vacío',
+    too_short: 'El campo {field} debe tener al menos {min} caracteres',
+    too_long: 'El campo {field} admite como máximo {max} caracteres',
+    invalid_email: 'El campo {field} no es un email válido',
+    not_array: 'El campo {field} debe ser un array',
+    empty_array: 'El campo {field} debe incluir al menos un elemento',
+    not_positive_integer: 'El campo {field} debe ser un número entero mayor a 0',
+    not_positive_number: 'El campo {field} debe ser un número mayor a 0',
+    invalid_precision: 'El campo {field} admite como máximo {decimals} decimales para {currency}',
+    decimals_not_allowed: 'El campo {field} debe ser un número entero para {currency}',
+    invalid_option: 'El campo {field} debe ser uno de: {options}',
+    exceeds_limit: 'El campo {field} ({amount}) excede el máximo permitido ({limit} {currency})',
+    out_of_range: 'El campo {field} debe ser un número entero entre {min} y {max}',
+    below_minimum: 'El campo {field} debe ser un número entero mayor o igual a {min}',
+    invalid_date: 'El campo {field} debe ser una fecha ISO 8601 válida',
+    invalid_date_range: 'El campo {field} debe ser anterior a {other}',
+    invalid_url: 'El campo {field} debe ser una URL http(s) absoluta',
+    not_boolean: 'El campo {field} debe ser true o false',
+    not_object: 'El campo {field} debe ser un objeto',
+    exceeds_max_installments: 'El campo {field} no puede superar max_installments ({max})',
+    installments_require_credit_card: 'El campo {field} requiere no excluir credit_card',
+    all_payment_types_excluded: 'El campo {field} no puede excluir todos los tipos de pago',
+    invalid_phone: 'El campo {field} no es un teléfono válido',
+    invalid_identification: 'El campo {field} no es un {type} válido',
+    identification_type_not_allowed: 'El campo {field} admite para {currency}: {options}',
+    not_allowed_for_mode: 'El campo {field} no se admite en modo {mode}',
+    free_shipping_with_cost: 'El campo {field} no puede tener valor con envío gratis',
+    cart_total_exceeded: 'El total del carrito ({total} {currency}) excede el máximo permitido ({max} {currency})',
+    item_not_allowed: 'El item {id} no está disponible para la venta',
+    invalid_percentage: 'El campo {field} debe ser un porcentaje entre 0 y 100',
+    invalid_coupon: 'El cupón {code} no es válido o ya no está vigente',
+    zero_total: 'El total del carrito debe ser mayor a 0 después de aplicar los descuentos',
+    billing_day_requires_months: 'El campo {field} solo se admite con frequency_type months',
+    not_allowed_with_plan: 'El campo {field} no se admite en suscripciones con plan',
+  },
+  en: {
+    required: '{field} is required',
+    not_string: '{field} must be a string',
+    empty_string: '{field} cannot be empty',
+    too_short: '{field} must be at least {min} characters long',
+    too_long: '{field} must be at most {max} characters long',
+    invalid_email: '{field} is not a valid email',
+    not_array: '{field} must be an array',
+    empty_array: '{field} must contain at least one element',
+    not_positive_integer: '{field} must be an integer greater than 0',
+    not_positive_number: '{field} must be a number greater than 0',
+    invalid_precision: '{field} allows at most {decimals} decimals for {currency}',
+    decimals_not_allowed: '{field} must be a whole number for {currency}',
+    invalid_option: '{field} must be one of: {options}',
+    exceeds_limit: '{field} ({amount}) exceeds the allowed maximum ({limit} {currency})',
+    out_of_range: '{field} must be an integer between {min} and {max}',
+    below_minimum: '{field} must be an integer greater than or equal to {min}',
+    invalid_date: '{field} must be a valid ISO 8601 date',
+    invalid_date_range: '{field} must be earlier than {other}',
+    invalid_url: '{field} must be an absolute http(s) URL',
+    not_boolean: '{field} must be true or false',
+    not_object: '{field} must be an object',
+    exceeds_max_installments: '{field} cannot exceed max_installments ({max})',
+    installments_require_credit_card: '{field} requires credit_card not to be excluded',
+    all_payment_types_excluded: '{field} cannot exclude every payment type',
+    invalid_phone: '{field} is not a valid phone number',
+    invalid_identification: '{field} is not a valid {type}',
+    identification_type_not_allowed: '{field} must be one of {options} for {currency}',
+    not_allowed_for_mode: '{field} is not allowed in {mode} mode',
+    free_shipping_with_cost: '{field} cannot be set when shipping is free',
+    cart_total_exceeded: 'Cart total ({total} {currency}) exceeds the allowed maximum ({max} {currency})',
+    item_not_allowed: 'Item {id} is not available for sale',
+    invalid_percentage: '{field} must be a percentage between 0 and 100',
+    invalid_coupon: 'Coupon {code} is invalid or no longer active',
+    zero_total: 'Cart total must be greater than 0 after discounts',
+    billing_day_requires_months: '{field} is only allowed with frequency_type months',
+    not_allowed_with_plan: '{field} is not allowed in subscriptions with a plan',
+  },
+  'pt-BR': {
+    required: 'O campo {field} é obrigatório',
+    not_string: 'O campo {field} deve ser um texto',
+    empty_string: 'O campo {field} não pode estar vazio',
+    too_short: 'O campo {field} deve ter pelo menos {min} caracteres',
+    too_long: 'O campo {field} aceita no máximo {max} caracteres',
+    invalid_email: 'O campo {field} não é um e-mail válido',
+    not_array: 'O campo {field} deve ser uma lista',
+    empty_array: 'O campo {field} deve conter pelo menos um elemento',
+    not_positive_integer: 'O campo {field} deve ser um número inteiro maior que 0',
+    not_positive_number: 'O campo {field} deve ser um número maior que 0',
+    invalid_precision: 'O campo {field} aceita no máximo {decimals} casas decimais para {currency}',
+    decimals_not_allowed: 'O campo {field} deve ser um número inteiro para {currency}',
+    invalid_option: 'O campo {field} deve ser um de: {options}',
+    exceeds_limit: 'O campo {field} ({amount}) excede o máximo permitido ({limit} {currency})',
+    out_of_range: 'O campo {field} deve ser um número inteiro entre {min} e {max}',
+    below_minimum: 'O campo {field} deve ser um número inteiro maior ou igual a {min}',
+    invalid_date: 'O campo {field} deve ser uma data ISO 8601 válida',
+    invalid_date_range: 'O campo {field} deve ser anterior a {other}',
+    invalid_url: 'O campo {field} deve ser uma URL http(s) absoluta',
+    not_boolean: 'O campo {field} deve ser true ou false',
+    not_object: 'O campo {field} deve ser um objeto',
+    exceeds_max_installments: 'O campo {field} não pode ultrapassar max_installments ({max})',
+    installments_require_credit_card: 'O campo {field} exige que credit_card não seja excluído',
+    all_payment_types_excluded: 'O campo {field} não pode excluir todos os tipos de pagamento',
+    invalid_phone: 'O campo {field} não é um telefone válido',
+    invalid_identification: 'O campo {field} não é um {type} válido',
+    identification_type_not_allowed: 'O campo {field} aceita para {currency}: {options}',
+    not_allowed_for_mode: 'O campo {field} não é aceito no modo {mode}',
+    free_shipping_with_cost: 'O campo {field} não pode ter valor com frete grátis',
+    cart_total_exceeded: 'O total do carrinho ({total} {currency}) excede o máximo permitido ({max} {currency})',
+    item_not_allowed: 'O item {id} não está disponível para venda',
+    invalid_percentage: 'O campo {field} deve ser uma porcentagem entre 0 e 100',
+    invalid_coupon: 'O cupom {code} não é válido ou não está mais ativo',
+    zero_total: 'O total do carrinho deve ser maior que 0 após os descontos',
+    billing_day_requires_months: 'O campo {field} só é aceito com frequency_type months',
+    not_allowed_with_plan: 'O campo {field} não é aceito em assinaturas com plano',
+  },
+};
+
+// Etiquetas por ruta normalizada (índices como []); {index} es la posición del item empezando en 1.
+// En inglés van con mayúscula porque abren la frase
+export const FIELD_LABELS: Record<ValidationLocale, Catalog> = {
+  es: {
+    currency: 'moneda',
+    customer_info: 'datos del cliente',
+    'customer_info.email': 'email del cliente',
+    'customer_info.name': 'nombre del cliente',
+    'customer_info.surname': 'apellido del cliente',
+    'customer_info.phone.area_code': 'código de área del cliente',
+    'customer_info.phone.number': 'teléfono del cliente',
+    'customer_info.identification.type': 'tipo de documento del cliente',
+    'customer_info.identification.number': 'número de documento del cliente',
+    'customer_info.address.street_name': 'calle del cliente',
+    'customer_info.address.street_number': 'número de calle del cliente',
+    'customer_info.address.zip_code': 'código postal del cliente',
+    'items[].title': 'título del item {index}',
+    'items[].quantity': 'cantidad del item {index}',
+    'items[].unit_price': 'precio unitario del item {index}',
+    'items[].description': 'descripción del item {index}',
+    'items[].id': 'id del item {index}',
+    'items[].discount.type': 'tipo de descuento del item {index}',
+    'items[].discount.value': 'descuento del item {index}',
+    'items[].tax_rate': 'impuesto del item {index}',
+    'discounts[].type': 'tipo de descuento',
+    'discounts[].value': 'descuento',
+    coupon_code: 'cupón',
+    reason: 'motivo de la suscripción',
+    payer_email: 'email del suscriptor',
+    card_token_id: 'token de la tarjeta',
+    'auto_recurring.transaction_amount': 'monto de la suscripción',
+    'auto_recurring.frequency': 'frecuencia de cobro',
+    'auto_recurring.billing_day': 'día de cobro',
+    transaction_amount: 'monto de la suscripción',
+    'seller.access_token': 'token del vendedor',
+    'seller.marketplace_fee': 'comisión del marketplace',
+    token: 'token de la tarjeta',
+    amount: 'monto',
+    installments: 'cuotas',
+    'payer.email': 'email del pagador',
+    'payer.identification.type': 'tipo de identificación del pagador',
+    'payer.identification.number': 'número de identificación del pagador',
+    refund_amount: 'monto de reembolso',
+    capture_amount: 'monto a capturar',
+    'shipping.cost': 'costo de envío',
+    'shipping.dimensions': 'dimensiones del paquete',
+    'shipping.receiver_address.zip_code': 'código postal de entrega',
+    'shipping.receiver_address.street_name': 'calle de entrega',
+  },
+  en: {
+    currency: 'Currency',
+    customer_info: 'Customer info',
+    'customer_info.email': 'Customer email',
+    'customer_info.name': 'Customer name',
+    'customer_info.surname': 'Customer surname',
+    'customer_info.phone.area_code': 'Customer area code',
+    'customer_info.phone.number': 'Customer phone',
+    'customer_info.identification.type': 'Customer identification type',
+    'customer_info.identification.number': 'Customer identification number',
+    'customer_info.address.street_name': 'Customer street',
+    'customer_info.address.street_number': 'Customer street number',
+    'customer_info.address.zip_code': 'Customer zip code',
+    'items[].title': 'Item {index} title',
+    'items[].quantity': 'Item {index} quantity',
+    'items[].unit_price': 'Item {index} unit price',
+    'items[].description': 'Item {index} description',
+    'items[].id': 'Item {index} id',
+    'items[].discount.type': 'Item {index} discount type',
+    'items[].discount.value': 'Item {index} discount',
+    'items[].tax_rate': 'Item {index} tax rate',
+    'discounts[].type': 'Discount type',
+    'discounts[].value': 'Discount',
+    coupon_code: 'Coupon',
+    reason: 'Subscription reason',
+    payer_email: 'Subscriber email',
+    card_token_id: 'Card token',
+    'auto_recurring.transaction_amount': 'Subscription amount',
+    'auto_recurring.frequency': 'Billing frequency',
+    'auto_recurring.billing_day': 'Billing day',
+    transaction_amount: 'Subscription amount',
+    'seller.access_token': 'Seller access token',
+    'seller.marketplace_fee': 'Marketplace fee',
+    token: 'Card token',
+    amount: 'Amount',
+    installments: 'Installments',
+    'payer.email': 'Payer email',
+    'payer.identification.type': 'Payer identification type',
+    'payer.identification.number': 'Payer identification number',
+    refund_amount: 'Refund amount',
+    capture_amount: 'Capture amount',
+    'shipping.cost': 'Shipping cost',
+    'shipping.dimensions': 'Package dimensions',
+    'shipping.receiver_address.zip_code': 'Delivery zip code',
+    'shipping.receiver_address.street_name': 'Delivery street',
+  },
+  'pt-BR': {
+    currency: 'moeda',
+    customer_info: 'dados do cliente',
+    'customer_info.email': 'e-mail do cliente',
+    'customer_info.name': 'nome do cliente',
+    'customer_info.surname': 'sobrenome do cliente',
+    'customer_info.phone.area_code': 'DDD do cliente',
+    'customer_info.phone.number': 'telefone do cliente',
+    'customer_info.identification.type': 'tipo de documento do cliente',
+    'customer_info.identification.number': 'número do documento do cliente',
+    'customer_info.address.street_name': 'rua do cliente',
+    'customer_info.address.street_number': 'número da rua do cliente',
+    'customer_info.address.zip_code': 'CEP do cliente',
+    'items[].title': 'título do item {index}',
+    'items[].quantity': 'quantidade do item {index}',
+    'items[].unit_price': 'preço unitário do item {index}',
+    'items[].description': 'descrição do item {index}',
+    'items[].id': 'id do item {index}',
+    'items[].discount.type': 'tipo de desconto do item {index}',
+    'items[].discount.value': 'desconto do item {index}',
+    'items[].tax_rate': 'imposto do item {index}',
+    'discounts[].type': 'tipo de desconto',
+    'discounts[].value': 'desconto',
+    coupon_code: 'cupom',
+    reason: 'motivo da assinatura',
+    payer_email: 'e-mail do assinante',
+    card_token_id: 'token do cartão',
+    'auto_recurring.transaction_amount': 'valor da assinatura',
+    'auto_recurring.frequency': 'frequência de cobrança',
+    'auto_recurring.billing_day': 'dia de cobrança',
+    transaction_amount: 'valor da assinatura',
+    'seller.access_token': 'token do vendedor',
+    'seller.marketplace_fee': 'comissão do marketplace',
+    token: 'token do cartão',
+    amount: 'valor',
+    installments: 'parcelas',
+    'payer.email': 'e-mail do pagador',
+    'payer.identification.type': 'tipo de documento do pagador',
+    'payer.identification.number': 'número do documento do pagador',
+    refund_amount: 'valor do reembolso',
+    capture_amount: 'valor a capturar',
+    'shipping.cost': 'custo do frete',
+    'shipping.dimensions': 'dimensões do pacote',
+    'shipping.receiver_address.zip_code': 'CEP de entrega',
+    'shipping.receiver_address.street_name': 'rua de entrega',
+  },
+};
+
+export function isSupportedLocale(locale: unknown): locale is ValidationLocale {
+  return typeof locale === 'string' && locale in MESSAGES;
+}
+
+function interpolate(template: string, params: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in params ? String(params[key]) : match));
+}
+
+/**
+ * Etiqueta traducida de un campo. Sin entrada en el catálogo se usa la ruta,
+ * que para la mayoría (idempotency_key, limit, sort...) ya es lo que ve el integrador.
+ */
+function fieldLabel(labelKey: string, path: string, locale: ValidationLocale): string {
+  const template = FIELD_LABELS[locale][labelKey];
+  if (template === undefined) {
+    return path;
+  }
+  const index = path.match(/\[(\d+)\]/);
+  return interpolate(template, { index: index ? Number(index[1]) + 1 : '' });
+}
+
+/**
+ * Convierte un issue en su forma final traducida.
+ * Prioridad del mensaje: message explícito, catálogo propio del comercio, catálogo de la librería, código.
+ */
+export function formatIssue(
+  input: ValidationIssueInput,
+  locale: ValidationLocale,
+  customMessages?: Partial<Record<ValidationLocale, Record<string, string>>>,
+  labelKey: string = normalizePath(input.path)
+): ValidationIssue {
+  const template = input.message ?? customMessages?.[locale]?.[input.code] ?? MESSAGES[locale][input.code];
+  const field = fieldLabel(labelKey, input.path, locale);
+
+  return {
+    code: input.code,
+    path: input.path,
+    message: template ? interpolate(template, { field, ...input.params }) : input.code,
+    params: input.params,
+  };
+}
+
+// 'items[0].title' -> 'items[].title'
+function normalizePath(path: string): string {
+  return path.replace(/\[\d+\]/g, '[]');
+}
@@ -1,13 +1,51 @@
 // lib/payments-lib/webhooks/MercadoPagoWebhookHandler.ts
 
-import { NextRequest } from 'next/server';
+import type { IncomingMessage } from 'http';
 import { createHmac } from 'crypto';
-import { WebhookEvent, WebhookConfig, WebhookProcessResult, WebhookLogData } from '../types';
+import {
+  WebhookEvent,
+  WebhookConfig,
+  WebhookProcessResult,
+  WebhookLogData,
+  WebhookDedupStore,
+  WebhookSignatureError,
+  WebhookEventName,
+  WebhookEventListener,
+  Order,
+  OrderStatus,
+  WebhookRequestData,
+  RawWebhookInput,
+  Logger,
+} from '../types/index.js';
+import { MerchantOrderMapper } from '../mappers/MerchantOrderMapper.js';
+import { PaymentMapper } from '../mappers/PaymentMapper.js';
+import { SubscriptionMapper } from '../mappers/SubscriptionMapper.js';
+import { InMemoryWebhookDedupStore } from '../stores/InMemoryWebhookDedupStore.js';
+import { WebhookEventEmitter } from './WebhookEventEmitter.js';
+import { OrderStateMachine } from '../orders/OrderStateMachine.js';
+import { fromFetchRequest, fromNodeRequest, fromRawInput } from './adapters.js';
+import { errorFields, resolveLogger } from '../logging/Logger.js';
+import { DEFAULT_SENSITIVE_HEADERS, redactPayerData, redactWebhookLog } from '../logging/redact.js';
+import { MercadoPagoApiClient } from '../api/MercadoPagoApiClient.js';
+import { CircuitOpenError, HttpPolicy, resolveHttpPolicyOptions } from '../http/HttpPolicy.js';
+import { MercadoPagoApiError, PersistenceError, SignatureError } from '../errors/PaymentErrors.js';
+
+const DEFAULT_DEDUP_TTL = 24 * 60 * 60 * 1000;
+// Reserva mientras se procesa; si el proceso cae, expira y un reintento puede procesarlo
+const DEDUP_CLAIM_TTL = 2 * 60 * 1000;
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Tópicos con los que MercadoPago notifica cambios en una merchant order (Webhooks e IPN)
+const MERCHANT_ORDER_TOPICS = ['merchant_order', 'topic_merchant_order_wh'];
+
+// Tópicos de suscripciones: cambios en el preapproval y cada cobro periódico (authorized_payment)
+const SUBSCRIPTION_TOPIC = 'subscription_preapproval';
+const AUTHORIZED_PAYMENT_TOPIC = 'subscription_authorized_payment';
 
 // ============= STEP BUILDER PATTERN INTERFACES =============
 
 interface WebhookExtractionStep {
-  extractRequestData(request: NextRequest): Promise<WebhookDataStep>;
+  loadRequestData(data: WebhookRequestData): WebhookDataStep;
 }
 
 interface WebhookDataStep {
@@ -16,10 +54,13 @@ interface WebhookDataStep {
 }
 
 interface WebhookValidationStep {
+  getSignatureError(): WebhookSignatureError | undefined;
   parseWebhookData(): WebhookParsingStep;
 }
 
 interface WebhookParsingStep {
+  getParseError(): string | null;
+  getWebhookType(): string | null;
   processEvent(): WebhookProcessingStep;
 }
 
@@ -27,6 +68,14 @@ interface WebhookProcessingStep {
   build(): Promise<WebhookProcessResult>;
 }
 
+// Colaboradores que el handler comparte entre todos los builders
+interface WebhookBuilderDependencies {
+  dedupStore: WebhookDedupStore;
+  emitter: WebhookEventEmitter;
+  logger: Logger;
+  apiClient: MercadoPagoApiClient;
+}
+
 // ============= STEP BUILDER IMPLEMENTATION =============
 
 class WebhookBuilder implements 
@@ -37,71 +86,86 @@ class WebhookBuilder implements
   WebhookProcessingStep {
 
   private config: WebhookConfig;
+  private dedupStore: WebhookDedupStore;
+  private emitter: WebhookEventEmitter;
+  private logger: Logger;
+  private apiClient: MercadoPagoApiClient;
   private requestBody: string = '';
   private headers: Record<string, string> = {};
+  private query: Record<string, string> | null = null;
+  private signedDataId: string | null = null; // data.id firmado; si existe es el único recurso que se procesa
   private clientIP: string = 'unknown';
   private webhookData: WebhookEvent | null = null;
-  private validationResult: { isValid: boolean; error?: string } = { isValid: true };
+  private validationResult: { isValid: boolean; error?: WebhookSignatureError } = { isValid: true };
   private baseLogData: WebhookLogData | null = null;
+  private parseError: string | null = null;
 
-  constructor(config: WebhookConfig) {
+  constructor(config: WebhookConfig, dependencies: WebhookBuilderDependencies) {
     this.config = config;
+    this.dedupStore = dependencies.dedupStore;
+    this.emitter = dependencies.emitter;
+    this.logger = dependencies.logger;
+    this.apiClient = dependencies.apiClient;
   }
 
   // ============= STEP 1: EXTRACTION =============
-  async extractRequestData(request: NextRequest): Promise<WebhookDataStep> {
-    try {
-      this.requestBody = await request.text();
-      this.headers = Object.fromEntries(request.headers.entries());
-      this.clientIP = request.headers.get('x-forwarded-for') || 
-                     request.headers.get('x-real-ip') || 
-                     'unknown';
-      
-      console.log('✅ Step 1: Request data extracted successfully');
-      return this;
-    } catch (error) {
-      console.error('❌ Step 1 failed: Error extracting request data:', error);
-      throw new Error('Failed to extract request data');
-    }
+  // Los adaptadores (Fetch, Node http, entrada cruda) normalizan el request antes de este paso
+  loadRequestData(data: WebhookRequestData): WebhookDataStep {
+    this.requestBody = data.body;
+    this.headers = data.headers;
+    this.query = data.query;
+    this.clientIP = data.clientIP;
+
+    this.logger.debug('Webhook request data extracted', { step: 1, client_ip: this.clientIP });
+    return this;
   }
 
   // ============= STEP 2: VALIDATION =============
   validateSignature(): WebhookValidationStep {
     if (this.config.enableSignatureValidation) {
-      this.validationResult = this.performSignatureValidation(this.requestBody, this.headers);
+      this.validationResult = this.performSignatureValidation(this.requestBody, this.headers, this.query);
       
       if (!this.validationResult.isValid) {
-        console.error('❌ Step 2 failed: Invalid webhook signature:', this.validationResult.error);
+        this.logger.warn('Invalid webhook signature', {
+          step: 2,
+          reason: this.validationResult.error?.code,
+          client_ip: this.clientIP
+        });
       } else {
-        console.log('✅ Step 2: Signature validation passed');
+        this.logger.debug('Webhook signature validation passed', { step: 2 });
       }
     } else {
-      console.log('⚠️ Step 2: Signature validation skipped (disabled)');
+      this.logger.debug('Webhook signature validation skipped (disabled)', { step: 2 });
     }
     
     return this;
   }
 
+  getSignatureError(): WebhookSignatureError | undefined {
+    return this.validationResult.error;
+  }
+
   skipSignatureValidation(): WebhookValidationStep {
     this.validationResult = { isValid: true };
-    console.log('⚠️ Step 2: Signature validation explicitly skipped');
+    this.logger.debug('Webhook signature validation explicitly skipped', { step: 2 });
     return this;
   }
 
   // ============= STEP 3: PARSING =============
   parseWebhookData(): WebhookParsingStep {
-    try {
-      if (!this.validationResult.isValid) {
-        throw new Error(`Signature validation failed: ${this.validationResult.error}`);
-      }
+    // Con firma inválida no se procesa el cuerpo; build() responde 403
+    if (!this.validationResult.isValid) {
+      return this;
+    }
 
+    try {
       this.webhookData = JSON.parse(this.requestBody);
       
       // Crear base log data
       this.baseLogData = {
         webhook_id: this.webhookData?.id?.toString() || 'unknown',
         payment_id: this.webhookData?.data?.id || null,
-        topic: this.webhookData?.type || 'unknown',
+        topic: this.webhookData?.type || this.webhookData?.topic || 'unknown',
         action: this.webhookData?.action || null,
         live_mode: this.webhookData?.live_mode || false,
         user_id: this.webhookData?.user_id?.toString() || null,
@@ -112,26 +176,60 @@ class WebhookBuilder implements
         processed_at: new Date().toISOString()
       };
 
-      console.log('✅ Step 3: Webhook data parsed successfully');
+      this.logger.debug('Webhook data parsed', { step: 3, topic: this.baseLogData.topic });
       return this;
     } catch (error) {
-      console.error('❌ Step 3 failed: Error parsing webhook data:', error);
-      throw new Error('Failed to parse webhook JSON');
+      // Un cuerpo malformado se responde con 400 en build()
+      this.logger.warn('Invalid webhook JSON payload', { step: 3, ...errorFields(error) });
+      this.parseError = 'Failed to parse webhook JSON';
+      return this;
     }
   }
 
+  getParseError(): string | null {
+    return this.parseError;
+  }
+
+  getWebhookType(): string | null {
+    return this.webhookData?.type || this.webhookData?.topic || null;
+  }
+
   // ============= STEP 4: PROCESSING =============
   processEvent(): WebhookProcessingStep {
+    if (!this.validationResult.isValid || this.parseError) {
+      return this;
+    }
+
     if (!this.webhookData || !this.baseLogData) {
       throw new Error('Webhook data not available for processing');
     }
 
-    console.log(`✅ Step 4: Ready to process ${this.webhookData.type} event`);
+    this.logger.debug('Webhook ready to process', { step: 4, topic: this.baseLogData.topic });
     return this;
   }
 
   // ============= STEP 5: BUILD =============
   async build(): Promise<WebhookProcessResult> {
+    // Verificar si hay errores de validación
+    if (!this.validationResult.isValid) {
+      return {
+        success: false,
+        status: 403,
+        message: 'Invalid signature',
+        error: this.validationResult.error?.message,
+        signature_error: this.validationResult.error
+      };
+    }
+
+    if (this.parseError) {
+      return {
+        success: false,
+        status: 400,
+        message: 'Invalid webhook payload',
+        error: this.parseError
+      };
+    }
+
     if (!this.webhookData || !this.baseLogData) {
       return {
         success: false,
@@ -141,25 +239,69 @@ class WebhookBuilder implements
       };
     }
 
+    const dedupKey = this.buildDedupKey();
+    let claimed = false;
+
     try {
-      // Verificar si hay errores de validación
-      if (!this.validationResult.isValid) {
-        return {
-          success: false,
-          status: 403,
-          message: 'Invalid signature',
-          error: this.validationResult.error
-        };
+      if (dedupKey) {
+        // Reentregas de MercadoPago: devolver el resultado ya almacenado
+        const previousResult = await this.dedupStore.get(dedupKey);
+        if (previousResult) {
+          return this.duplicateResult(previousResult, dedupKey);
+        }
+
+        // Reservar la clave antes de procesar para que dos entregas simultáneas no se procesen ambas
+        claimed = await this.dedupStore.claim(dedupKey, DEDUP_CLAIM_TTL);
+        if (!claimed) {
+          const finishedResult = await this.dedupStore.get(dedupKey);
+          if (finishedResult) {
+            return this.duplicateResult(finishedResult, dedupKey);
+          }
+
+          // Otra entrega lo está procesando: MercadoPago reintenta las respuestas que no son 2xx
+          this.logger.info('Webhook already being processed', { step: 5, dedup_key: dedupKey });
+          return {
+            success: false,
+            status: 409,
+            message: 'Webhook already being processed',
+            error: 'Concurrent delivery of the same notification, retry later'
+          };
+        }
       }
 
       // Procesar según el tipo de evento
-      const result = await this.handleEventByType(this.webhookData, this.baseLogData);
+      let result = await this.handleEventByType(this.webhookData, this.baseLogData);
+
+      // Vincular el evento con la orden guardada (por external_reference)
+      if (result.success && result.data) {
+        result = await this.updateOrderStatus(result);
+      }
+
+      // Notificar a los listeners registrados con on(); reciben los datos del pagador sin enmascarar
+      if (result.success && result.data) {
+        result = await this.dispatchEvent(result);
+      }
+
+      // Lo que se devuelve y se guarda en el dedup store ya no contiene datos sensibles
+      result = this.redactResult(result);
+
+      // Solo se recuerdan los procesados con éxito, los fallidos deben reintentarse
+      if (claimed && dedupKey) {
+        if (result.success) {
+          await this.dedupStore.set(dedupKey, result, this.config.dedupTtl ?? DEFAULT_DEDUP_TTL);
+        } else {
+          await this.releaseClaim(dedupKey);
+        }
+      }
       
-      console.log('✅ Step 5: Webhook processing completed successfully');
+      this.logger.debug('Webhook processing completed', { step: 5, status: result.status });
       return result;
 
     } catch (error) {
-      console.error('❌ Step 5 failed: Error in final processing:', error);
+      this.logger.error('Webhook processing failed', { step: 5, ...errorFields(error) });
+      if (claimed && dedupKey) {
+        await this.releaseClaim(dedupKey);
+      }
       return {
         success: false,
         status: 500,
@@ -171,12 +313,170 @@ class WebhookBuilder implements
 
   // ============= PRIVATE HELPER METHODS =============
 
+  private duplicateResult(previousResult: WebhookProcessResult, dedupKey: string): WebhookProcessResult {
+    this.logger.info('Duplicate webhook skipped', { step: 5, dedup_key: dedupKey });
+    return {
+      ...previousResult,
+      success: true,
+      status: 200,
+      message: 'Duplicate webhook already processed',
+      duplicate: true
+    };
+  }
+
+  // Un fallo al liberar no debe ocultar el error original; la reserva expira sola
+  private async releaseClaim(dedupKey: string): Promise<void> {
+    try {
+      await this.dedupStore.release(dedupKey);
+    } catch (error) {
+      this.logger.warn('Failed to release webhook dedup claim', { step: 5, dedup_key: dedupKey, ...errorFields(error) });
+    }
+  }
+
+  // Oculta cabeceras sensibles y datos del pagador antes de exponer o guardar el log
+  private redactResult(result: WebhookProcessResult): WebhookProcessResult {
+    if (!result.data) {
+      return result;
+    }
+
+    const { redaction } = this.config;
+    const payerData = redaction?.payerData ?? true;
+    const data = result.data;
+    return {
+      ...result,
+      data: {
+        ...data,
+        webhook_log: redactWebhookLog(data.webhook_log, {
+          sensitiveHeaders: [...DEFAULT_SENSITIVE_HEADERS, ...(redaction?.headers || [])],
+          payerData
+        }),
+        ...(payerData
+          ? {
+              payment_info: redactPayerData(data.payment_info),
+              shipping: redactPayerData(data.shipping),
+              subscription_info: redactPayerData(data.subscription_info)
+            }
+          : {})
+      }
+    };
+  }
+
+  private async updateOrderStatus(result: WebhookProcessResult): Promise<WebhookProcessResult> {
+    const repository = this.config.orderRepository;
+    const data = result.data;
+    if (!repository || !data) {
+      return result;
+    }
+
+    try {
+      let order: Order | null = null;
+      let status: OrderStatus | null = null;
+
+      if (data.payment_info) {
+        status = OrderStateMachine.fromPaymentStatus(data.mapped_status);
+        const externalReference = data.payment_info.external_reference;
+        order = externalReference ? await repository.findByExternalReference(externalReference) : null;
+      } else if (data.merchant_order_info) {
+        // De la merchant order solo se toma la expiración; los pagos llegan en su propio webhook
+        status = data.merchant_order_info.status === 'expired' ? 'expired' : null;
+        const { external_reference, preference_id } = data.merchant_order_info;
+        order = external_reference ? await repository.findByExternalReference(external_reference) : null;
+        if (!order && preference_id) {
+          order = await repository.findByPreferenceId(preference_id);
+        }
+      }
+
+      if (!order) {
+        return result;
+      }
+
+      if (!status) {
+        return {
+          ...result,
+          data: { ...data, order }
+        };
+      }
+
+      const update = await OrderStateMachine.applyStatus(repository, order, status);
+      if (!update.applied) {
+        this.logger.warn('Order status transition rejected', {
+          step: 5,
+          order_id: order.id,
+          from: update.previous_status,
+          to: status
+        });
+      }
+
+      return {
+        ...result,
+        data: {
+          ...data,
+          order: { ...order, status: update.status },
+          order_update: update
+        }
+      };
+    } catch (error) {
+      // Un error de persistencia responde 500 para que MercadoPago reintente
+      this.logger.error('Order status update failed', { step: 5, ...errorFields(error) });
+      return {
+        ...result,
+        success: false,
+        status: 500,
+        message: 'Failed to update order status',
+        error: error instanceof Error ? error.message : 'Unknown persistence error',
+        error_info: new PersistenceError('Failed to update order status', error)
+      };
+    }
+  }
+
+  private async dispatchEvent(result: WebhookProcessResult): Promise<WebhookProcessResult> {
+    try {
+      const event = await this.emitter.dispatch(result.data!);
+      return { ...result, event };
+    } catch (error) {
+      // Un error en un listener responde 500 para que MercadoPago reintente
+      this.logger.error('Webhook event listener failed', { step: 5, ...errorFields(error) });
+      return {
+        ...result,
+        success: false,
+        status: 500,
+        message: 'Webhook event listener failed',
+        error: error instanceof Error ? error.message : 'Unknown listener error'
+      };
+    }
+  }
+
+  // Sin id de webhook ni x-request-id no hay forma segura de identificar una reentrega
+  private buildDedupKey(): string | null {
+    const webhookId = this.baseLogData?.webhook_id || 'unknown';
+    const requestId = this.headers['x-request-id'] || '';
+    if (webhookId === 'unknown' && !requestId) {
+      return null;
+    }
+
+    const action = this.baseLogData?.action || '';
+    return `${webhookId}:${requestId}:${action}`;
+  }
+
   private async handleEventByType(webhookData: WebhookEvent, baseLogData: WebhookLogData): Promise<WebhookProcessResult> {
-    const { type: topic, data } = webhookData;
-    const paymentId = data?.id;
+    const { type, data } = webhookData;
+    const topic = type || webhookData.topic;
+    const resourceId = this.signedDataId || data?.id || this.extractResourceId(webhookData.resource);
+
+    if (topic === 'payment' && resourceId) {
+      return await this.handlePaymentEvent(resourceId, baseLogData);
+    }
+
+    if (MERCHANT_ORDER_TOPICS.includes(topic) && resourceId) {
+      return await this.handleMerchantOrderEvent(resourceId, baseLogData);
+    }
+
+    if (topic === SUBSCRIPTION_TOPIC && resourceId) {
+      return await this.handleSubscriptionEvent(resourceId, baseLogData);
+    }
 
-    if (topic === 'payment' && paymentId) {
-      return await this.handlePaymentEvent(paymentId, baseLogData);
+    if (topic === AUTHORIZED_PAYMENT_TOPIC && resourceId) {
+      return await this.handleAuthorizedPaymentEvent(resourceId, baseLogData);
     }
 
     // Otros tipos de eventos
@@ -233,6 +533,8 @@ class WebhookBuilder implements
         data: {
           webhook_log: completeLogData,
           payment_info: paymentInfo,
+          shipping: PaymentMapper.toShippingInfo(paymentInfo),
+          fees: PaymentMapper.toFeeBreakdown(paymentInfo),
           mapped_status: mappedStatus
         }
       };
@@ -249,6 +551,7 @@ class WebhookBuilder implements
         status: 500,
         message: 'Error processing payment webhook',
         error: error instanceof Error ? error.message : 'Unknown error',
+        error_info: MercadoPagoApiError.fromSdkError(error, 'payment_fetch_failed', 'Error fetching payment from MercadoPago'),
         data: {
           webhook_log: errorLogData,
           payment_info: null,
@@ -258,25 +561,297 @@ class WebhookBuilder implements
     }
   }
 
-  private async getPaymentInfo(paymentId: string): Promise<any> {
+  private async handleMerchantOrderEvent(merchantOrderId: string, baseLogData: WebhookLogData): Promise<WebhookProcessResult> {
+    const merchantOrderLogData: WebhookLogData = {
+      ...baseLogData,
+      payment_id: null,
+      merchant_order_id: merchantOrderId
+    };
+
     try {
-      const { MercadoPagoConfig, Payment } = await import('mercadopago');
-      
-      const client = new MercadoPagoConfig({
-        accessToken: this.config.accessToken,
-        options: {
-          timeout: 5000,
-        },
+      const merchantOrder = await this.getMerchantOrderInfo(merchantOrderId);
+
+      if (!merchantOrder) {
+        return {
+          success: false,
+          status: 400,
+          message: 'Failed to fetch merchant order information from MercadoPago',
+          error: 'Merchant order not found or API error',
+          data: {
+            webhook_log: {
+              ...merchantOrderLogData,
+              status: 'error',
+              error_message: 'Failed to fetch merchant order info'
+            },
+            payment_info: null,
+            merchant_order_info: null,
+            mapped_status: null
+          }
+        };
+      }
+
+      const merchantOrderInfo = MerchantOrderMapper.toMerchantOrderInfo(merchantOrder);
+      const completeLogData: WebhookLogData = {
+        ...merchantOrderLogData,
+        status: merchantOrderInfo.status,
+        external_reference: merchantOrderInfo.external_reference,
+        mapped_status: merchantOrderInfo.payment_state,
+        transaction_amount: merchantOrderInfo.paid_amount,
+        currency_id: merchantOrderInfo.currency_id
+      };
+
+      return {
+        success: true,
+        status: 200,
+        message: 'Merchant order webhook processed successfully',
+        data: {
+          webhook_log: completeLogData,
+          payment_info: null,
+          merchant_order_info: merchantOrderInfo,
+          mapped_status: merchantOrderInfo.payment_state
+        }
+      };
+
+    } catch (error) {
+      const errorLogData: WebhookLogData = {
+        ...merchantOrderLogData,
+        status: 'processing_error',
+        error_message: error instanceof Error ? error.message : 'Unknown processing error'
+      };
+
+      return {
+        success: false,
+        status: 500,
+        message: 'Error processing merchant order webhook',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        error_info: MercadoPagoApiError.fromSdkError(error, 'merchant_order_fetch_failed', 'Error fetching merchant order from MercadoPago'),
+        data: {
+          webhook_log: errorLogData,
+          payment_info: null,
+          merchant_order_info: null,
+          mapped_status: null
+        }
+      };
+    }
+  }
+
+  private async handleSubscriptionEvent(subscriptionId: string, baseLogData: WebhookLogData): Promise<WebhookProcessResult> {
+    const subscriptionLogData: WebhookLogData = {
+      ...baseLogData,
+      payment_id: null,
+      subscription_id: subscriptionId
+    };
+
+    try {
+      const preApproval = await this.fetchResource(
+        () => this.apiClient.getPreApproval(subscriptionId),
+        'Error fetching preapproval from MercadoPago API',
+        { subscription_id: subscriptionId }
+      );
+
+      if (!preApproval) {
+        return {
+          success: false,
+          status: 400,
+          message: 'Failed to fetch subscription information from MercadoPago',
+          error: 'Subscription not found or API error',
+          data: {
+            webhook_log: {
+              ...subscriptionLogData,
+              status: 'error',
+              error_message: 'Failed to fetch subscription info'
+            },
+            payment_info: null,
+            subscription_info: null,
+            mapped_status: null
+          }
+        };
+      }
+
+      const subscription = SubscriptionMapper.toSubscription(preApproval);
+      const completeLogData: WebhookLogData = {
+        ...subscriptionLogData,
+        status: subscription.status,
+        external_reference: subscription.external_reference,
+        mapped_status: subscription.status,
+        transaction_amount: subscription.auto_recurring.transaction_amount,
+        currency_id: subscription.auto_recurring.currency_id,
+        payer_email: subscription.payer_email
+      };
+
+      return {
+        success: true,
+        status: 200,
+        message: 'Subscription webhook processed successfully',
+        data: {
+          webhook_log: completeLogData,
+          payment_info: null,
+          subscription_info: subscription,
+          mapped_status: subscription.status
+        }
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        status: 500,
+        message: 'Error processing subscription webhook',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        error_info: MercadoPagoApiError.fromSdkError(error, 'subscription_fetch_failed', 'Error fetching subscription from MercadoPago'),
+        data: {
+          webhook_log: {
+            ...subscriptionLogData,
+            status: 'processing_error',
+            error_message: error instanceof Error ? error.message : 'Unknown processing error'
+          },
+          payment_info: null,
+          subscription_info: null,
+          mapped_status: null
+        }
+      };
+    }
+  }
+
+  private async handleAuthorizedPaymentEvent(authorizedPaymentId: string, baseLogData: WebhookLogData): Promise<WebhookProcessResult> {
+    try {
+      const invoice = await this.fetchResource(
+        () => this.apiClient.getAuthorizedPayment(authorizedPaymentId),
+        'Error fetching authorized payment from MercadoPago API',
+        { authorized_payment_id: authorizedPaymentId }
+      );
+
+      if (!invoice) {
+        return {
+          success: false,
+          status: 400,
+          message: 'Failed to fetch authorized payment information from MercadoPago',
+          error: 'Authorized payment not found or API error',
+          data: {
+            webhook_log: {
+              ...baseLogData,
+              payment_id: null,
+              status: 'error',
+              error_message: 'Failed to fetch authorized payment info'
+            },
+            payment_info: null,
+            authorized_payment_info: null,
+            mapped_status: null
+          }
+        };
+      }
+
+      const authorizedPayment = SubscriptionMapper.toAuthorizedPayment(invoice);
+      const completeLogData: WebhookLogData = {
+        ...baseLogData,
+        // payment_id es el pago generado por el cobro, si ya se procesó
+        payment_id: authorizedPayment.payment?.id || null,
+        subscription_id: authorizedPayment.preapproval_id,
+        status: authorizedPayment.status,
+        external_reference: authorizedPayment.external_reference,
+        mapped_status: authorizedPayment.status,
+        transaction_amount: authorizedPayment.transaction_amount,
+        currency_id: authorizedPayment.currency_id
+      };
+
+      return {
+        success: true,
+        status: 200,
+        message: 'Subscription payment webhook processed successfully',
+        data: {
+          webhook_log: completeLogData,
+          payment_info: null,
+          authorized_payment_info: authorizedPayment,
+          mapped_status: authorizedPayment.status
+        }
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        status: 500,
+        message: 'Error processing subscription payment webhook',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        error_info: MercadoPagoApiError.fromSdkError(error, 'authorized_payment_fetch_failed', 'Error fetching authorized payment from MercadoPago'),
+        data: {
+          webhook_log: {
+            ...baseLogData,
+            payment_id: null,
+            status: 'processing_error',
+            error_message: error instanceof Error ? error.message : 'Unknown processing error'
+          },
+          payment_info: null,
+          authorized_payment_info: null,
+          mapped_status: null
+        }
+      };
+    }
+  }
+
+  // Igual que getPaymentInfo: null ante errores definitivos, propaga los transitorios
+  private async fetchResource(fetch: () => Promise<any>, logMessage: string, fields: Record<string, string>): Promise<any> {
+    try {
+      const response = await fetch();
+      return response?.id ? response : null;
+    } catch (error) {
+      this.logger.error(logMessage, { ...fields, ...errorFields(error) });
+      return this.nullUnlessTransient(error);
+    }
+  }
+
+  private async getMerchantOrderInfo(merchantOrderId: string): Promise<any> {
+    const client = await this.clientForNotification();
+    try {
+      const response = await client.getMerchantOrder(merchantOrderId);
+      return response?.id ? response : null;
+    } catch (error) {
+      this.logger.error('Error fetching merchant order from MercadoPago API', {
+        merchant_order_id: merchantOrderId,
+        ...errorFields(error)
       });
+      return this.nullUnlessTransient(error);
+    }
+  }
 
-      const payment = new Payment(client);
-      const response = await payment.get({ id: paymentId });
+  // Las notificaciones IPN envían la URL del recurso en lugar de data.id
+  private extractResourceId(resource: unknown): string | undefined {
+    if (typeof resource !== 'string' || resource.length === 0) {
+      return undefined;
+    }
+    return resource.split('/').filter(Boolean).pop();
+  }
 
+  private async getPaymentInfo(paymentId: string): Promise<any> {
+    const client = await this.clientForNotification();
+    try {
+      const response = await client.getPayment(paymentId);
       return response?.id ? response : null;
     } catch (error) {
-      console.error('❌ Error fetching payment info from MercadoPago API:', error);
-      return null;
+      this.logger.error('Error fetching payment from MercadoPago API', { payment_id: paymentId, ...errorFields(error) });
+      return this.nullUnlessTransient(error);
+    }
+  }
+
+  /**
+   * En un marketplace los pagos y merchant orders pertenecen al vendedor (user_id del webhook)
+   * y se consultan con su token. Un error del resolver se propaga para responder 500.
+   */
+  private async clientForNotification(): Promise<MercadoPagoApiClient> {
+    const userId = this.baseLogData?.user_id;
+    const resolve = this.config.resolveSellerAccessToken;
+    if (!resolve || !userId) {
+      return this.apiClient;
+    }
+
+    const accessToken = await resolve(userId);
+    return accessToken ? this.apiClient.withAccessToken(accessToken) : this.apiClient;
+  }
+
+  // Las fallas transitorias (red, 429, 5xx, circuito abierto) se propagan para responder 500 y que MercadoPago reintente
+  private nullUnlessTransient(error: unknown): null {
+    if (error instanceof CircuitOpenError || HttpPolicy.isRetryable(error)) {
+      throw error;
     }
+    return null;
   }
 
   private mapPaymentStatus(mercadoPagoStatus: string): string {
@@ -284,7 +859,7 @@ class WebhookBuilder implements
       'approved': 'approved',
       'rejected': 'rejected',
       'cancelled': 'cancelled',
-      'authorized': 'approved',
+      'authorized': 'authorized',
       'in_process': 'pending',
       'in_mediation': 'pending',
       'refunded': 'refunded',
@@ -295,26 +870,35 @@ class WebhookBuilder implements
     return statusMapping[mercadoPagoStatus] || 'unknown';
   }
 
-  private performSignatureValidation(body: string, headers: Record<string, string>): {
+  /**
+   * Valida x-signature según la especificación de MercadoPago:
+   * manifest `id:[data.id];request-id:[x-request-id];ts:[ts];` firmado con HMAC-SHA256,
+   * donde data.id proviene del query string de la URL notificada.
+   */
+  private performSignatureValidation(
+    body: string,
+    headers: Record<string, string>,
+    query: Record<string, string> | null
+  ): {
     isValid: boolean;
-    error?: string;
+    error?: WebhookSignatureError;
   } {
     try {
-      if (!this.config.webhookSecret) {
+      const secrets = this.getWebhookSecrets();
+      if (secrets.length === 0) {
         return { isValid: true };
       }
 
-      const signature = headers['x-signature'] || headers['X-Signature'];
+      const signature = this.getHeader(headers, 'x-signature');
       if (!signature) {
-        return { isValid: false, error: 'Missing x-signature header' };
+        return this.signatureFailure('missing_signature', 'Missing x-signature header');
       }
 
-      const parts = signature.split(',');
       let timestamp = '';
       let receivedSignature = '';
 
-      for (const part of parts) {
-        const [key, value] = part.split('=');
+      for (const part of signature.split(',')) {
+        const [key, value] = part.split('=').map(segment => segment?.trim());
         if (key === 'ts') {
           timestamp = value;
         } else if (key === 'v1') {
@@ -323,32 +907,97 @@ class WebhookBuilder implements
       }
 
       if (!timestamp || !receivedSignature) {
-        return { isValid: false, error: 'Invalid signature format' };
+        return this.signatureFailure('invalid_signature_format', 'Invalid signature format, expected ts and v1');
+      }
+
+      if (!/^\d+$/.test(timestamp)) {
+        return this.signatureFailure('invalid_timestamp', `Invalid signature timestamp: ${timestamp}`);
       }
 
-      const dataId = headers['data_id'] || this.extractDataIdFromBody(body);
-      const manifest = `id:${dataId};request-id:${headers['x-request-id'] || ''};ts:${timestamp};`;
+      const toleranceSeconds = this.config.signatureTolerance ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+      const ageSeconds = Math.abs(Date.now() / 1000 - this.toEpochSeconds(Number(timestamp)));
+      if (toleranceSeconds > 0 && ageSeconds > toleranceSeconds) {
+        return this.signatureFailure(
+          'timestamp_out_of_tolerance',
+          `Signature timestamp is ${Math.round(ageSeconds)}s old, tolerance is ${toleranceSeconds}s`
+        );
+      }
+
+      // Solo el data.id del query string está firmado; el del cuerpo nunca se usa para el manifest
+      const dataId = query?.['data.id'];
+      const manifest = this.buildSignatureManifest(dataId, this.getHeader(headers, 'x-request-id'), timestamp);
+
+      // Se acepta cualquiera de los secretos configurados para permitir la rotación
+      const isValid = secrets.some(secret => {
+        const expectedSignature = createHmac('sha256', secret)
+          .update(manifest)
+          .digest('hex');
+        return this.safeCompare(expectedSignature, receivedSignature);
+      });
 
-      const expectedSignature = createHmac('sha256', this.config.webhookSecret)
-        .update(manifest)
-        .digest('hex');
+      if (!isValid) {
+        return this.signatureFailure('signature_mismatch', 'Signature does not match any configured secret');
+      }
 
-      const isValid = this.safeCompare(expectedSignature, receivedSignature);
+      // Una notificación firmada reenviada con otro recurso en el cuerpo no debe procesar ese recurso
+      const bodyResourceId = this.extractResourceIdFromBody(body);
+      if (bodyResourceId && bodyResourceId.toLowerCase() !== (dataId || '').toLowerCase()) {
+        return this.signatureFailure('data_id_mismatch', 'Notification resource id does not match the signed data.id');
+      }
 
-      return { isValid };
+      this.signedDataId = dataId || null;
+      return { isValid: true };
 
     } catch (error) {
-      console.error('❌ Error validating signature:', error);
-      return { isValid: false, error: 'Signature validation error' };
+      this.logger.error('Error validating webhook signature', errorFields(error));
+      return this.signatureFailure('validation_error', 'Signature validation error');
     }
   }
 
-  private extractDataIdFromBody(body: string): string {
+  private getWebhookSecrets(): string[] {
+    const { webhookSecret } = this.config;
+    const secrets = Array.isArray(webhookSecret) ? webhookSecret : [webhookSecret];
+    return secrets.filter((secret): secret is string => typeof secret === 'string' && secret.length > 0);
+  }
+
+  // Las partes ausentes se omiten del manifest, como indica la documentación de MercadoPago
+  private buildSignatureManifest(dataId: string | undefined, requestId: string | undefined, timestamp: string): string {
+    let manifest = '';
+    if (dataId) {
+      // Los ids alfanuméricos se firman en minúsculas
+      manifest += `id:${/^[a-z0-9]+$/i.test(dataId) ? dataId.toLowerCase() : dataId};`;
+    }
+    if (requestId) {
+      manifest += `request-id:${requestId};`;
+    }
+    manifest += `ts:${timestamp};`;
+    return manifest;
+  }
+
+  // ts puede venir en segundos o milisegundos
+  private toEpochSeconds(timestamp: number): number {
+    return timestamp > 1e11 ? timestamp / 1000 : timestamp;
+  }
+
+  private getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const match = Object.keys(headers).find(key => key.toLowerCase() === name);
+    return match ? headers[match] : undefined;
+  }
+
+  private signatureFailure(code: WebhookSignatureError['code'], message: string): {
+    isValid: boolean;
+    error: WebhookSignatureError;
+  } {
+    return { isValid: false, error: new SignatureError(code, message) };
+  }
+
+  // Mismo criterio que handleEventByType: data.id o el último segmento de resource (IPN)
+  private extractResourceIdFromBody(body: string): string | undefined {
     try {
       const data = JSON.parse(body);
-      return data.data?.id || '';
+      return data?.data?.id?.toString() || this.extractResourceId(data?.resource);
     } catch {
-      return '';
+      return undefined;
     }
   }
 
@@ -370,96 +1019,117 @@ class WebhookBuilder implements
 
 export class MercadoPagoWebhookHandler {
   private config: WebhookConfig;
+  private dedupStore: WebhookDedupStore;
+  private emitter = new WebhookEventEmitter();
+  private logger: Logger;
+  private apiClient: MercadoPagoApiClient;
 
   constructor(config: WebhookConfig) {
     this.config = config;
+    this.dedupStore = config.dedupStore || new InMemoryWebhookDedupStore();
+    this.logger = resolveLogger(config.logger);
+    this.apiClient = new MercadoPagoApiClient({
+      accessToken: config.accessToken,
+      timeout: config.timeout,
+      policy: new HttpPolicy(resolveHttpPolicyOptions(config), this.logger),
+    });
+  }
+
+  /**
+   * Registra un listener tipado, p. ej. on('payment.approved', payment => ...)
+   * Si un listener lanza un error el webhook responde 500 y MercadoPago lo reintenta
+   */
+  on<E extends WebhookEventName>(event: E, listener: WebhookEventListener<E>): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  off<E extends WebhookEventName>(event: E, listener: WebhookEventListener<E>): this {
+    this.emitter.off(event, listener);
+    return this;
   }
 
   /**
    * Método principal usando Step Builder Pattern
-   * Garantiza que todos los pasos se ejecuten en el orden correcto
+   * Garantiza que todos los pasos se ejecuten en el orden correcto.
+   * Acepta cualquier Request de Fetch, incluido NextRequest del App Router
    */
-  async processWebhookRequest(request: NextRequest): Promise<WebhookProcessResult> {
-    try {
-      console.log('🚀 Starting webhook processing with Step Builder Pattern');
-      
-      const result = await new WebhookBuilder(this.config)
-        .extractRequestData(request)                    // Step 1: Extract
-        .then(builder => builder.validateSignature())  // Step 2: Validate
-        .then(builder => builder.parseWebhookData())    // Step 3: Parse
-        .then(builder => builder.processEvent())        // Step 4: Process
-        .then(builder => builder.build());              // Step 5: Build
-
-      console.log('✅ Webhook processing completed successfully');
-      return result;
+  async processWebhookRequest(request: Request): Promise<WebhookProcessResult> {
+    return this.runPipeline(() => fromFetchRequest(request));
+  }
 
-    } catch (error) {
-      console.error('💥 Error in webhook processing pipeline:', error);
-      return {
-        success: false,
-        status: 500,
-        message: 'Internal server error',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
+  /**
+   * Procesa un IncomingMessage de Node (Pages Router API routes, Express, http).
+   * Si un body parser ya leyó el cuerpo, pasarlo en `parsedBody` (p. ej. req.body)
+   */
+  async processNodeRequest(
+    request: IncomingMessage,
+    parsedBody?: string | Buffer | Record<string, any>
+  ): Promise<WebhookProcessResult> {
+    return this.runPipeline(() => fromNodeRequest(request, parsedBody));
+  }
+
+  /**
+   * Procesa cuerpo, cabeceras y query ya extraídos (colas, workers, tests)
+   */
+  async processRawWebhook(input: RawWebhookInput): Promise<WebhookProcessResult> {
+    return this.runPipeline(async () => fromRawInput(input));
   }
 
   /**
    * Método alternativo para procesar con datos ya extraídos
-   * Útil para testing o cuando ya tienes los datos del request
+   * Útil para testing o cuando ya tienes los datos del request.
+   * `query` es el query string de la URL notificada (contiene el data.id firmado).
+   * Con validación de firma, sin `query` se rechaza toda notificación que apunte a un recurso
    */
   async processWebhookData(
     requestBody: string, 
-    headers: Record<string, string>
+    headers: Record<string, string>,
+    query?: Record<string, string>
   ): Promise<WebhookProcessResult> {
-    try {
-      console.log('🚀 Starting webhook data processing with Step Builder Pattern');
-      
-      // Simular el primer paso con datos ya extraídos
-      const builder = new WebhookBuilder(this.config);
-      (builder as any).requestBody = requestBody;
-      (builder as any).headers = headers;
-      (builder as any).clientIP = 'manual';
-
-      const result = await builder
-        .validateSignature()     // Step 2: Validate
-        .parseWebhookData()      // Step 3: Parse
-        .processEvent()          // Step 4: Process
-        .build();                // Step 5: Build
-
-      console.log('✅ Webhook data processing completed successfully');
-      return result;
-
-    } catch (error) {
-      console.error('💥 Error in webhook data processing pipeline:', error);
-      return {
-        success: false,
-        status: 500,
-        message: 'Internal server error',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
+    return this.runPipeline(async () => ({
+      ...fromRawInput({ body: requestBody, headers, query }),
+      clientIP: 'manual'
+    }));
   }
 
   /**
    * Método para validación rápida sin procesamiento completo
    */
-  async validateWebhookOnly(body: string, headers: Record<string, string>): Promise<{
+  async validateWebhookOnly(
+    body: string,
+    headers: Record<string, string>,
+    query?: Record<string, string>
+  ): Promise<{
     isValid: boolean;
     error?: string;
+    signatureError?: WebhookSignatureError;
     webhookType?: string;
   }> {
     try {
-      const builder = new WebhookBuilder(this.config);
-      (builder as any).requestBody = body;
-      (builder as any).headers = headers;
+      const validationStep = new WebhookBuilder(this.config, this.dependencies())
+        .loadRequestData(fromRawInput({ body, headers, query }))
+        .validateSignature();
+      const signatureError = validationStep.getSignatureError();
+      if (signatureError) {
+        return {
+          isValid: false,
+          error: signatureError.message,
+          signatureError
+        };
+      }
 
-      const validationStep = builder.validateSignature();
       const parsingStep = validationStep.parseWebhookData();
+      if (parsingStep.getParseError()) {
+        return {
+          isValid: false,
+          error: 'Invalid webhook format'
+        };
+      }
       
       return {
         isValid: true,
-        webhookType: (parsingStep as any).webhookData?.type
+        webhookType: parsingStep.getWebhookType() || undefined
       };
     } catch (error) {
       return {
@@ -468,4 +1138,48 @@ export class MercadoPagoWebhookHandler {
       };
     }
   }
-}
\ No newline at end of file
+
+  private dependencies(): WebhookBuilderDependencies {
+    return {
+      dedupStore: this.dedupStore,
+      emitter: this.emitter,
+      logger: this.logger,
+      apiClient: this.apiClient
+    };
+  }
+
+  private async runPipeline(extract: () => Promise<WebhookRequestData>): Promise<WebhookProcessResult> {
+    try {
+      this.logger.debug('Starting webhook processing');
+
+      const requestData = await extract().catch(error => {
+        this.logger.error('Error extracting webhook request data', { step: 1, ...errorFields(error) });
+        throw new Error('Failed to extract request data');
+      });
+
+      const result = await new WebhookBuilder(this.config, this.dependencies())
+        .loadRequestData(requestData)   // Step 1: Extract
+        .validateSignature()            // Step 2: Validate
+        .parseWebhookData()             // Step 3: Parse
+        .processEvent()                 // Step 4: Process
+        .build();                       // Step 5: Build
+
+      this.logger.info('Webhook processed', {
+        status: result.status,
+        topic: result.data?.webhook_log.topic,
+        webhook_id: result.data?.webhook_log.webhook_id,
+        duplicate: result.duplicate || false
+      });
+      return result;
+
+    } catch (error) {
+      this.logger.error('Error in webhook processing pipeline', errorFields(error));
+      return {
+        success: false,
+        status: 500,
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
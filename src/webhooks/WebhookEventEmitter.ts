@@ -0,0 +1,105 @@
+// webhooks/WebhookEventEmitter.ts
+
+import { WebhookEventListener, WebhookEventMap, WebhookEventName, WebhookResult } from '../types/index.js';
+import { PaymentMapper } from '../mappers/PaymentMapper.js';
+
+// mapped_status del pago -> evento emitido
+const PAYMENT_EVENTS: Record<string, WebhookEventName> = {
+  approved: 'payment.approved',
+  authorized: 'payment.authorized',
+  pending: 'payment.pending',
+  rejected: 'payment.rejected',
+  cancelled: 'payment.cancelled',
+  refunded: 'payment.refunded',
+  chargeback: 'payment.charged_back',
+};
+
+// status de la merchant order -> evento emitido
+const MERCHANT_ORDER_EVENTS: Record<string, WebhookEventName> = {
+  opened: 'merchant_order.opened',
+  closed: 'merchant_order.closed',
+  expired: 'merchant_order.expired',
+};
+
+// status de la suscripción (preapproval) -> evento emitido
+const SUBSCRIPTION_EVENTS: Record<string, WebhookEventName> = {
+  pending: 'subscription.pending',
+  authorized: 'subscription.authorized',
+  paused: 'subscription.paused',
+  cancelled: 'subscription.cancelled',
+};
+
+// status del cobro periódico (authorized_payment) -> evento emitido
+const AUTHORIZED_PAYMENT_EVENTS: Record<string, WebhookEventName> = {
+  scheduled: 'subscription_payment.scheduled',
+  processed: 'subscription_payment.processed',
+  recycling: 'subscription_payment.recycling',
+  cancelled: 'subscription_payment.cancelled',
+};
+
+export class WebhookEventEmitter {
+  private listeners = new Map<WebhookEventName, Set<WebhookEventListener<any>>>();
+
+  on<E extends WebhookEventName>(event: E, listener: WebhookEventListener<E>): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+  }
+
+  off<E extends WebhookEventName>(event: E, listener: WebhookEventListener<E>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Ejecuta los listeners que correspondan al resultado procesado.
+   * Los errores de los listeners se propagan para que el webhook responda con error
+   * y MercadoPago lo reintente.
+   */
+  async dispatch(result: WebhookResult): Promise<WebhookEventName | null> {
+    if (result.payment_info) {
+      const event = PAYMENT_EVENTS[result.mapped_status || ''];
+      if (event) {
+        await this.emit(event, PaymentMapper.toPaymentResult(result.payment_info), result);
+      }
+      return event || null;
+    }
+
+    if (result.merchant_order_info) {
+      const event = MERCHANT_ORDER_EVENTS[result.merchant_order_info.status];
+      if (event) {
+        await this.emit(event, result.merchant_order_info, result);
+      }
+      return event || null;
+    }
+
+    if (result.subscription_info) {
+      const event = SUBSCRIPTION_EVENTS[result.subscription_info.status];
+      if (event) {
+        await this.emit(event, result.subscription_info, result);
+      }
+      return event || null;
+    }
+
+    if (result.authorized_payment_info) {
+      const event = AUTHORIZED_PAYMENT_EVENTS[result.authorized_payment_info.status];
+      if (event) {
+        await this.emit(event, result.authorized_payment_info, result);
+      }
+      return event || null;
+    }
+
+    return null;
+  }
+
+  private async emit<E extends WebhookEventName>(event: E, payload: WebhookEventMap[E], result: WebhookResult): Promise<void> {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+
+    for (const listener of listeners) {
+      await listener(payload, result);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+// webhooks/adapters.ts
+
+import type { IncomingMessage } from 'http';
+import { RawWebhookInput, WebhookRequestData } from '../types/index.js';
+
+type HeaderValue = string | string[] | undefined | null;
+
+/**
+ * Request estándar de Fetch (App Router, Edge/Workers, Bun, Deno).
+ * NextRequest extiende Request, por lo que también sirve para Next.js.
+ */
+export async function fromFetchRequest(request: Request): Promise<WebhookRequestData> {
+  // forEach en lugar de entries(): no requiere la lib dom.iterable
+  const rawHeaders: Record<string, string> = {};
+  request.headers.forEach((value, key) => {
+    rawHeaders[key] = value;
+  });
+  const headers = normalizeHeaders(rawHeaders);
+
+  return {
+    body: await request.text(),
+    headers,
+    query: parseQuery(request.url),
+    clientIP: resolveClientIP(headers),
+  };
+}
+
+/**
+ * IncomingMessage de Node (Pages Router API routes, Express, http.createServer).
+ * Si un body parser ya consumió el stream, pasar el cuerpo en `parsedBody`;
+ * si no, se lee directamente del request.
+ */
+export async function fromNodeRequest(
+  request: IncomingMessage,
+  parsedBody?: string | Buffer | Record<string, any>
+): Promise<WebhookRequestData> {
+  const headers = normalizeHeaders(request.headers);
+
+  return {
+    body: parsedBody !== undefined ? stringifyBody(parsedBody) : await readStream(request),
+    headers,
+    query: parseQuery(request.url || ''),
+    clientIP: resolveClientIP(headers, request.socket?.remoteAddress),
+  };
+}
+
+/**
+ * Cuerpo, cabeceras y query ya extraídos (colas, tests, frameworks sin adaptador)
+ */
+export function fromRawInput(input: RawWebhookInput): WebhookRequestData {
+  const headers = normalizeHeaders(input.headers);
+
+  return {
+    body: stringifyBody(input.body),
+    headers,
+    query: input.query ? normalizeQuery(input.query) : input.url ? parseQuery(input.url) : null,
+    clientIP: input.clientIP || resolveClientIP(headers),
+  };
+}
+
+// Cabeceras en minúsculas; los valores múltiples se unen como en Fetch
+function normalizeHeaders(headers: Record<string, HeaderValue>): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    if (value === undefined || value === null) continue;
+    normalized[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return normalized;
+}
+
+function normalizeQuery(query: Record<string, HeaderValue>): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) continue;
+    normalized[key] = Array.isArray(value) ? value[0] : String(value);
+  }
+  return normalized;
+}
+
+// Admite URLs absolutas y rutas relativas como las de IncomingMessage.url
+function parseQuery(url: string): Record<string, string> {
+  const { searchParams } = new URL(url, 'http://localhost');
+  return Object.fromEntries(searchParams.entries());
+}
+
+function resolveClientIP(headers: Record<string, string>, remoteAddress?: string): string {
+  return headers['x-forwarded-for'] || headers['x-real-ip'] || remoteAddress || 'unknown';
+}
+
+function stringifyBody(body: string | Buffer | Record<string, any>): string {
+  if (typeof body === 'string') return body;
+  if (Buffer.isBuffer(body)) return body.toString('utf8');
+  return JSON.stringify(body);
+}
+
+async function readStream(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
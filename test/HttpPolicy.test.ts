@@ -0,0 +1,117 @@
+// test/HttpPolicy.test.ts
+
+import { CircuitOpenError, DeadlineExceededError, HttpPolicy } from '../src/http/HttpPolicy';
+import { MercadoPagoApiError } from '../src/errors/PaymentErrors';
+
+const serverError = () => Object.assign(new Error('Internal Server Error'), { status: 500 });
+const badRequest = () => Object.assign(new Error('Bad Request'), { status: 400 });
+const never = () => new Promise<never>(() => undefined);
+
+// Falla las primeras `failures` veces y luego responde 'ok'
+const failing = (failures: number, error = serverError) => {
+  let calls = 0;
+  const fn = jest.fn(async () => {
+    calls++;
+    if (calls <= failures) {
+      throw error();
+    }
+    return 'ok';
+  });
+  return fn;
+};
+
+describe('HttpPolicy retries', () => {
+  it('retries retryable errors with backoff until the call succeeds', async () => {
+    const policy = new HttpPolicy({ retries: 2, baseDelayMs: 1, circuitBreaker: false });
+    const fn = failing(2);
+
+    await expect(policy.execute('payment.get', fn)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const policy = new HttpPolicy({ retries: 1, baseDelayMs: 1, circuitBreaker: false });
+    const fn = failing(5);
+
+    await expect(policy.execute('payment.get', fn)).rejects.toMatchObject({ status: 500 });
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry client errors', async () => {
+    const policy = new HttpPolicy({ retries: 3, baseDelayMs: 1 });
+    const fn = failing(1, badRequest);
+
+    await expect(policy.execute('payment.get', fn)).rejects.toMatchObject({ status: 400 });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('caps the backoff delay at maxDelayMs', async () => {
+    const policy = new HttpPolicy({ retries: 3, baseDelayMs: 10000, maxDelayMs: 5, circuitBreaker: false });
+    const startedAt = Date.now();
+
+    await expect(policy.execute('payment.get', failing(3))).resolves.toBe('ok');
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+});
+
+describe('HttpPolicy deadline', () => {
+  it('cuts off a hanging call at the deadline with a retryable error', async () => {
+    const policy = new HttpPolicy({ retries: 2, deadlineMs: 50, circuitBreaker: false });
+    const startedAt = Date.now();
+
+    const error = await policy.execute('payment.get', never).catch(err => err);
+
+    expect(error).toBeInstanceOf(DeadlineExceededError);
+    expect(HttpPolicy.isRetryable(error)).toBe(true);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(MercadoPagoApiError.fromSdkError(error, 'payment_not_found', 'x')).toMatchObject({
+      code: 'deadline_exceeded',
+      retryable: true,
+    });
+  });
+
+  it('bounds retries by the remaining deadline', async () => {
+    const policy = new HttpPolicy({ retries: 10, baseDelayMs: 1, deadlineMs: 60, circuitBreaker: false });
+    let calls = 0;
+    const fn = jest.fn(() => {
+      calls++;
+      // El primer intento falla rápido; el segundo se cuelga y lo corta el plazo restante
+      return calls === 1 ? Promise.reject(serverError()) : never();
+    });
+    const startedAt = Date.now();
+
+    await expect(policy.execute('payment.get', fn)).rejects.toBeInstanceOf(DeadlineExceededError);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+});
+
+describe('HttpPolicy circuit breaker', () => {
+  it('opens after consecutive failures and rejects without calling the API', async () => {
+    const policy = new HttpPolicy({ retries: 0, circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 } });
+    const fn = failing(10);
+
+    await expect(policy.execute('payment.get', fn)).rejects.toMatchObject({ status: 500 });
+    await expect(policy.execute('payment.get', fn)).rejects.toMatchObject({ status: 500 });
+    await expect(policy.execute('payment.get', fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets a single trial through after the reset timeout and closes on success', async () => {
+    const policy = new HttpPolicy({ retries: 0, circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 20 } });
+
+    await expect(policy.execute('payment.get', failing(1))).rejects.toMatchObject({ status: 500 });
+    await expect(policy.execute('payment.get', failing(0))).rejects.toBeInstanceOf(CircuitOpenError);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await expect(policy.execute('payment.get', failing(0))).resolves.toBe('ok');
+    await expect(policy.execute('payment.get', failing(0))).resolves.toBe('ok');
+  });
+
+  it('does not count client errors towards opening the circuit', async () => {
+    const policy = new HttpPolicy({ retries: 0, circuitBreaker: { failureThreshold: 1 } });
+
+    await expect(policy.execute('payment.get', failing(1, badRequest))).rejects.toMatchObject({ status: 400 });
+    await expect(policy.execute('payment.get', failing(0))).resolves.toBe('ok');
+  });
+});
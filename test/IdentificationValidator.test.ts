@@ -0,0 +1,57 @@
+// test/IdentificationValidator.test.ts
+
+import { IdentificationValidator } from '../src/validators/IdentificationValidator';
+import { IdentificationType } from '../src/types';
+
+// Documentos públicos de organismos y empresas, y ejemplos conocidos de cada algoritmo
+const VALID: Array<[IdentificationType, string]> = [
+  ['CUIT', '33-69345023-9'], // AFIP
+  ['CUIT', '30-70308853-4'],
+  ['CUIL', '20-17254359-7'],
+  ['CPF', '529.982.247-25'],
+  ['CPF', '111.444.777-35'],
+  ['CNPJ', '11.222.333/0001-81'],
+  ['CNPJ', '33.000.167/0001-01'], // Petrobras
+  ['NIT', '800.197.268-4'], // DIAN
+  ['NIT', '890.903.938-8'], // Bancolombia
+  ['RUT', '11.111.111-1'],
+  ['RUT', '12.345.678-5'],
+  ['RUT', '10.000.013-k'],
+  ['RFC', 'SAT970701NN3'], // SAT, persona moral
+  ['RFC', 'GODE561231GR8'], // persona física
+  ['RFC', 'XAXX010101000'], // genérico del SAT
+  ['CI', '1.234.567-2'],
+  ['CI', '111.111-3'],
+];
+
+const INVALID: Array<[IdentificationType, string]> = [
+  ['CUIT', '33-69345023-8'],
+  ['CUIT', '3369345023'],
+  ['CPF', '529.982.247-24'],
+  ['CPF', '111.111.111-11'],
+  ['CNPJ', '11.222.333/0001-82'],
+  ['CNPJ', '00.000.000/0000-00'],
+  ['NIT', '800.197.268-5'],
+  ['NIT', '1234567'],
+  ['RUT', '12.345.678-9'],
+  ['RUT', '10.000.013-0'],
+  ['RFC', 'SAT970701NN4'],
+  ['RFC', 'GODE561231GR'],
+  ['CI', '1.234.567-3'],
+  ['CI', '123.456'],
+];
+
+describe('IdentificationValidator.isValid', () => {
+  it.each(VALID)('accepts %s %s', (type, number) => {
+    expect(IdentificationValidator.isValid(type, number)).toBe(true);
+  });
+
+  it.each(INVALID)('rejects %s %s', (type, number) => {
+    expect(IdentificationValidator.isValid(type, number)).toBe(false);
+  });
+
+  it('only accepts the check digit of the document type it was issued for', () => {
+    expect(IdentificationValidator.isValid('CPF', '11222333000181')).toBe(false);
+    expect(IdentificationValidator.isValid('CNPJ', '52998224725')).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+// test/MercadoPagoApiClient.test.ts
+
+import { MercadoPagoApiClient } from '../src/api/MercadoPagoApiClient';
+import { HttpPolicy } from '../src/http/HttpPolicy';
+
+// El SDK hace las peticiones con node-fetch; cada llamada al mock es un request HTTP
+const mockFetch = jest.fn();
+jest.mock('node-fetch', () => mockFetch);
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+  headers: { raw: () => ({}) },
+});
+
+afterEach(() => {
+  mockFetch.mockReset();
+});
+
+describe('MercadoPagoApiClient retries', () => {
+  it.each([0, 2])('makes exactly retries + 1 requests on a 500 with retries: %i', async retries => {
+    mockFetch.mockImplementation(async () => jsonResponse(500, { status: 500, message: 'internal_error' }));
+    const client = new MercadoPagoApiClient({
+      accessToken: 'TEST-TOKEN',
+      policy: new HttpPolicy({ retries, baseDelayMs: 1, circuitBreaker: false }),
+    });
+
+    await expect(client.getPayment('1')).rejects.toMatchObject({ status: 500 });
+    expect(mockFetch).toHaveBeenCalledTimes(retries + 1);
+  });
+
+  it('returns the response of the retry that succeeds', async () => {
+    mockFetch
+      .mockImplementationOnce(async () => jsonResponse(502, { status: 502, message: 'bad_gateway' }))
+      .mockImplementation(async () => jsonResponse(200, { id: 1, status: 'approved' }));
+    const client = new MercadoPagoApiClient({
+      accessToken: 'TEST-TOKEN',
+      policy: new HttpPolicy({ retries: 2, baseDelayMs: 1, circuitBreaker: false }),
+    });
+
+    await expect(client.getPayment('1')).resolves.toMatchObject({ id: 1, status: 'approved' });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('MercadoPagoApiClient idempotency', () => {
+  it('sends the idempotency key as X-Idempotency-Key when creating a preference', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse(201, { id: 'pref_1' }));
+    const client = new MercadoPagoApiClient({ accessToken: 'TEST-TOKEN' });
+
+    await client.createPreference({ items: [] }, 'checkout-123');
+
+    const [, init] = mockFetch.mock.calls[0];
+    expect(init.headers['X-Idempotency-Key']).toBe('checkout-123');
+  });
+});
@@ -0,0 +1,64 @@
+// test/MercadoPagoBuilder.test.ts
+
+import { MercadoPagoBuilder } from '../src/builders/MercadoPagoBuilder';
+import { MercadoPagoApiClient } from '../src/api/MercadoPagoApiClient';
+import { Logger, PaymentRequest } from '../src/types';
+import { toMinorUnits } from '../src/utils/currency';
+
+const silentLogger: Logger = { debug() {}, info() {}, warn() {}, error() {} };
+
+// Preferencia que el builder envía a MercadoPago
+const buildPayload = async (request: PaymentRequest) => {
+  const createPreference = jest.fn(async (body: any) => ({ id: 'pref_1', init_point: 'https://mp.example.com/pref_1' }));
+  const builder = new MercadoPagoBuilder(
+    {
+      accessToken: 'TEST-TOKEN',
+      baseUrl: 'https://tienda.example.com',
+      WEBHOOK_URL: 'https://tienda.example.com/api/webhooks',
+      currency: 'ARS',
+      logger: silentLogger,
+    },
+    { createPreference } as unknown as MercadoPagoApiClient
+  );
+
+  await builder.setPaymentRequest(request).buildPreference().createPreference();
+  return createPreference.mock.calls[0][0];
+};
+
+const itemsTotalMinor = (items: Array<{ quantity: number; unit_price: number }>) =>
+  items.reduce((sum, item) => sum + item.quantity * toMinorUnits(item.unit_price, 'ARS'), 0);
+
+describe('MercadoPagoBuilder.buildPreference', () => {
+  it('sends items and shipping that add up to metadata.total_amount', async () => {
+    const body = await buildPayload({
+      items: [
+        { title: 'Remera', quantity: 3, unit_price: 33.33, discount: { type: 'percentage', value: 10 } },
+        { title: 'Taza', quantity: 1, unit_price: 12.5, tax_rate: 21 },
+      ],
+      customer_info: { name: 'Ana', email: 'ana@example.com' },
+      shipping: { mode: 'custom', cost: 15.5 },
+    });
+
+    expect(body.shipments).toMatchObject({ mode: 'custom', cost: 15.5 });
+    expect(itemsTotalMinor(body.items) + toMinorUnits(body.shipments.cost, 'ARS')).toBe(
+      toMinorUnits(body.metadata.total_amount, 'ARS')
+    );
+    expect(body.metadata).toMatchObject({ shipping_mode: 'custom', shipping_cost: 15.5, free_shipping: false });
+  });
+
+  it('gives each group of a split line its own item id', async () => {
+    const body = await buildPayload({
+      items: [
+        { id: 'SKU-1', title: 'Remera', quantity: 3, unit_price: 100, discount: { type: 'fixed', value: 0.01 } },
+        { id: 'SKU-2', title: 'Taza', quantity: 2, unit_price: 10 },
+      ],
+      customer_info: { name: 'Ana', email: 'ana@example.com' },
+    });
+
+    expect(body.items.map((item: any) => [item.id, item.quantity, item.unit_price])).toEqual([
+      ['SKU-1-1', 2, 100],
+      ['SKU-1-2', 1, 99.99],
+      ['SKU-2', 2, 10],
+    ]);
+  });
+});
@@ -0,0 +1,298 @@
+// test/MercadoPagoService.test.ts
+
+import { MercadoPagoService } from '../src/MercadoPagoService';
+import { MercadoPagoApiClient } from '../src/api/MercadoPagoApiClient';
+import { InMemoryOrderRepository } from '../src/orders/InMemoryOrderRepository';
+import { ValidationRules } from '../src/validators/ValidationRules';
+import { Logger, Order, OrderStatus, PaymentRequest } from '../src/types';
+
+const silentLogger: Logger = { debug() {}, info() {}, warn() {}, error() {} };
+
+// Token con el que se creó cada cliente; withAccessToken crea una instancia nueva
+const tokenOf = (client: MercadoPagoApiClient) => (client as any).config.accessToken as string;
+
+const request = (title: string): PaymentRequest => ({
+  items: [{ title, quantity: 1, unit_price: 100 }],
+  customer_info: { name: 'Ana', email: 'ana@example.com' },
+});
+
+const createService = (orderRepository = new InMemoryOrderRepository()) =>
+  new MercadoPagoService({
+    accessToken: 'MARKETPLACE-TOKEN',
+    baseUrl: 'https://tienda.example.com',
+    WEBHOOK_URL: 'https://tienda.example.com/api/webhooks',
+    currency: 'ARS',
+    orderRepository,
+    logger: silentLogger,
+  });
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('MercadoPagoService marketplace payments', () => {
+  it('keeps concurrent payments isolated when preferences resolve out of order', async () => {
+    const delays: Record<string, number> = { 'SELLER-A': 30, 'SELLER-B': 0 };
+    jest.spyOn(MercadoPagoApiClient.prototype, 'createPreference').mockImplementation(async function (this: MercadoPagoApiClient, body: any) {
+      const token = tokenOf(this);
+      await new Promise(resolve => setTimeout(resolve, delays[token]));
+      return { id: `pref_${token}_${body.items[0].title}`, init_point: `https://mp.example.com/${token}` };
+    });
+
+    const repository = new InMemoryOrderRepository();
+    const service = createService(repository);
+    const [first, second] = await Promise.all([
+      service.processPayment(request('Producto A'), { seller: { access_token: 'SELLER-A', id: 'a' } }),
+      service.processPayment(request('Producto B'), { seller: { access_token: 'SELLER-B', id: 'b' } }),
+    ]);
+
+    expect(first.data?.preference_id).toBe('pref_SELLER-A_Producto A');
+    expect(second.data?.preference_id).toBe('pref_SELLER-B_Producto B');
+
+    const firstOrder = await repository.findById(first.data!.order_id);
+    const secondOrder = await repository.findById(second.data!.order_id);
+    expect(firstOrder?.marketplace?.seller_id).toBe('a');
+    expect(secondOrder?.marketplace?.seller_id).toBe('b');
+  });
+
+  it('captures, cancels and refunds with the seller token', async () => {
+    const tokens: string[] = [];
+    const record = (result: any) =>
+      async function (this: MercadoPagoApiClient) {
+        tokens.push(tokenOf(this));
+        return result;
+      };
+
+    jest.spyOn(MercadoPagoApiClient.prototype, 'getPayment').mockImplementation(
+      record({ id: 1, status: 'authorized', transaction_amount: 100, currency_id: 'ARS' })
+    );
+    jest.spyOn(MercadoPagoApiClient.prototype, 'capturePayment').mockImplementation(record({ id: 1, status: 'approved' }));
+    jest.spyOn(MercadoPagoApiClient.prototype, 'cancelPayment').mockImplementation(record({ id: 1, status: 'cancelled' }));
+
+    const service = createService();
+    const seller = { access_token: 'SELLER-A' };
+    expect((await service.capturePayment('1', undefined, { seller })).success).toBe(true);
+    expect((await service.cancelAuthorization('1', { seller })).success).toBe(true);
+
+    jest.spyOn(MercadoPagoApiClient.prototype, 'getPayment').mockImplementation(
+      record({ id: 1, status: 'approved', transaction_amount: 100, currency_id: 'ARS' })
+    );
+    jest.spyOn(MercadoPagoApiClient.prototype, 'refundPayment').mockImplementation(record({ id: 9, amount: 100 }));
+    expect((await service.refundPayment('1', { seller })).success).toBe(true);
+
+    expect(tokens).toHaveLength(6);
+    expect(new Set(tokens)).toEqual(new Set(['SELLER-A']));
+  });
+
+  it('rejects seller operations without an access token', async () => {
+    const getPayment = jest.spyOn(MercadoPagoApiClient.prototype, 'getPayment');
+
+    const result = await createService().refundPayment('1', { seller: { access_token: '' } });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('validation_error');
+    expect(getPayment).not.toHaveBeenCalled();
+  });
+});
+
+describe('MercadoPagoService refunds', () => {
+  const approvedPayment = (refunded = 0) => ({
+    id: 1,
+    status: 'approved',
+    transaction_amount: 100,
+    transaction_amount_refunded: refunded,
+    currency_id: 'ARS',
+    external_reference: 'order_1',
+  });
+
+  const order = (status: OrderStatus): Order => ({
+    id: 'order_1',
+    external_reference: 'order_1',
+    customer_info: { name: 'Ana', email: 'ana@example.com' },
+    items: [],
+    subtotal_amount: 100,
+    discount_amount: 0,
+    tax_amount: 0,
+    total_amount: 100,
+    total_items: 1,
+    currency_id: 'ARS',
+    preference_id: 'pref_1',
+    status,
+    created_at: '2024-01-01T00:00:00.000Z',
+    expires_at: '2024-01-02T00:00:00.000Z',
+  });
+
+  const stubRefund = (payment: any) => {
+    jest.spyOn(MercadoPagoApiClient.prototype, 'getPayment').mockResolvedValue(payment);
+    return jest
+      .spyOn(MercadoPagoApiClient.prototype, 'refundPayment')
+      .mockImplementation(async (_paymentId: string, amount?: number) => ({
+        id: 9,
+        payment_id: 1,
+        amount: amount ?? payment.transaction_amount - payment.transaction_amount_refunded,
+        status: 'approved',
+      }));
+  };
+
+  it('marks the order partially_refunded and reports what is left', async () => {
+    stubRefund(approvedPayment());
+    const repository = new InMemoryOrderRepository();
+    repository.save(order('approved'));
+
+    const result = await createService(repository).refundPayment('1', { amount: 30.5 });
+
+    expect(result.data).toMatchObject({ amount: 30.5, total_refunded: 30.5, remaining_amount: 69.5 });
+    expect((await repository.findById('order_1'))?.status).toBe('partially_refunded');
+  });
+
+  it('marks the order refunded when the partial refund covers the remaining balance', async () => {
+    const refundPayment = stubRefund(approvedPayment(60));
+    const repository = new InMemoryOrderRepository();
+    repository.save(order('partially_refunded'));
+
+    const result = await createService(repository).refundPayment('1', { amount: 40 });
+
+    expect(refundPayment).toHaveBeenCalledWith('1', 40);
+    expect(result.data).toMatchObject({ total_refunded: 100, remaining_amount: 0 });
+    expect((await repository.findById('order_1'))?.status).toBe('refunded');
+  });
+
+  it('refunds the remaining balance when no amount is given', async () => {
+    const refundPayment = stubRefund(approvedPayment(25));
+    const repository = new InMemoryOrderRepository();
+    repository.save(order('partially_refunded'));
+
+    const result = await createService(repository).refundPayment('1');
+
+    expect(refundPayment).toHaveBeenCalledWith('1', undefined);
+    expect(result.data).toMatchObject({ amount: 75, total_refunded: 100, remaining_amount: 0 });
+    expect((await repository.findById('order_1'))?.status).toBe('refunded');
+  });
+
+  it('rejects partial amounts above what is left after previous refunds', async () => {
+    const refundPayment = stubRefund(approvedPayment(60));
+
+    const result = await createService().refundPayment('1', { amount: 40.01 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('validation_error');
+    expect(refundPayment).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 for payments that are not approved', async () => {
+    const refundPayment = stubRefund({ ...approvedPayment(), status: 'pending' });
+
+    const result = await createService().refundPayment('1', { amount: 10 });
+
+    expect(result.error).toMatchObject({ code: 'payment_not_refundable', status: 409 });
+    expect(refundPayment).not.toHaveBeenCalled();
+  });
+
+  it('notifies the save callback when there is no order repository', async () => {
+    stubRefund(approvedPayment());
+    const callback = jest.fn();
+    const service = new MercadoPagoService({
+      accessToken: 'MARKETPLACE-TOKEN',
+      baseUrl: 'https://tienda.example.com',
+      WEBHOOK_URL: 'https://tienda.example.com/api/webhooks',
+      currency: 'ARS',
+      logger: silentLogger,
+    }).setSaveOrderCallback(callback);
+
+    await service.refundPayment('1', { amount: 10 });
+
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'order_1', status: 'partially_refunded', refund: expect.objectContaining({ amount: 10 }) })
+    );
+  });
+
+  it('lists refunds in chronological order with running totals', async () => {
+    jest.spyOn(MercadoPagoApiClient.prototype, 'getPayment').mockResolvedValue(approvedPayment(100));
+    jest.spyOn(MercadoPagoApiClient.prototype, 'listRefunds').mockResolvedValue([
+      { id: 12, amount: 70, status: 'approved', date_created: '2024-01-03T00:00:00.000Z' },
+      { id: 11, amount: 30, status: 'approved', date_created: '2024-01-02T00:00:00.000Z' },
+    ]);
+
+    const result = await createService().listRefunds('1');
+
+    expect(result.data?.map(refund => [refund.id, refund.total_refunded, refund.remaining_amount])).toEqual([
+      ['11', 30, 70],
+      ['12', 100, 0],
+    ]);
+  });
+});
+
+describe('MercadoPagoService idempotent payments', () => {
+  const idempotentRequest = (): PaymentRequest => ({ ...request('Producto A'), idempotency_key: 'checkout-123' });
+
+  it('creates a single preference for concurrent calls with the same key', async () => {
+    const createPreference = jest
+      .spyOn(MercadoPagoApiClient.prototype, 'createPreference')
+      .mockImplementation(async () => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return { id: 'pref_1', init_point: 'https://mp.example.com/pref_1' };
+      });
+    const service = createService();
+
+    const [first, second] = await Promise.all([
+      service.processPayment(idempotentRequest()),
+      service.processPayment(idempotentRequest()),
+    ]);
+
+    expect(createPreference).toHaveBeenCalledTimes(1);
+    expect(createPreference).toHaveBeenCalledWith(expect.any(Object), 'checkout-123');
+    expect(second.data).toEqual(first.data);
+  });
+
+  it('returns the stored response when the key is repeated later', async () => {
+    const createPreference = jest
+      .spyOn(MercadoPagoApiClient.prototype, 'createPreference')
+      .mockResolvedValue({ id: 'pref_1', init_point: 'https://mp.example.com/pref_1' });
+    const service = createService();
+
+    const first = await service.processPayment(idempotentRequest());
+    const repeated = await service.processPayment(idempotentRequest());
+
+    expect(createPreference).toHaveBeenCalledTimes(1);
+    expect(repeated).toEqual(first);
+  });
+
+  it('does not store failed runs so the next call creates the preference', async () => {
+    const createPreference = jest
+      .spyOn(MercadoPagoApiClient.prototype, 'createPreference')
+      .mockRejectedValueOnce(Object.assign(new Error('Service Unavailable'), { status: 503 }))
+      .mockResolvedValue({ id: 'pref_2', init_point: 'https://mp.example.com/pref_2' });
+    const service = createService();
+
+    expect((await service.processPayment(idempotentRequest())).success).toBe(false);
+
+    const retry = await service.processPayment(idempotentRequest());
+    expect(retry.data?.preference_id).toBe('pref_2');
+    expect(createPreference).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('MercadoPagoService validation rules', () => {
+  it('applies merchant rules to the total after the coupon', async () => {
+    const createPreference = jest
+      .spyOn(MercadoPagoApiClient.prototype, 'createPreference')
+      .mockResolvedValue({ id: 'pref_1', init_point: 'https://mp.example.com/pref_1' });
+    const service = new MercadoPagoService({
+      accessToken: 'MARKETPLACE-TOKEN',
+      baseUrl: 'https://tienda.example.com',
+      WEBHOOK_URL: 'https://tienda.example.com/api/webhooks',
+      currency: 'ARS',
+      orderRepository: new InMemoryOrderRepository(),
+      logger: silentLogger,
+      couponResolver: async () => ({ type: 'fixed', value: 30 }),
+    }).addValidationRule(ValidationRules.maxCartTotal(100));
+    const cart = { ...request('Producto A'), items: [{ title: 'Producto A', quantity: 2, unit_price: 60 }] };
+
+    expect((await service.processPayment({ ...cart, coupon_code: 'OTOÑO' })).success).toBe(true);
+
+    const withoutCoupon = await service.processPayment(cart);
+    expect(withoutCoupon.success).toBe(false);
+    expect(withoutCoupon.error_info?.code).toBe('validation_error');
+    expect(createPreference).toHaveBeenCalledTimes(1);
+  });
+});
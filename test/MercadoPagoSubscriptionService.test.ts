@@ -0,0 +1,179 @@
+// test/MercadoPagoSubscriptionService.test.ts
+
+import { MercadoPagoSubscriptionService } from '../src/subscriptions/MercadoPagoSubscriptionService';
+import { MercadoPagoApiClient } from '../src/api/MercadoPagoApiClient';
+import { SubscriptionMapper } from '../src/mappers/SubscriptionMapper';
+import { Logger } from '../src/types';
+
+const silentLogger: Logger = { debug() {}, info() {}, warn() {}, error() {} };
+
+const preApprovalPlan = (currency_id: string) => ({
+  id: 'plan_1',
+  reason: 'Plan mensual',
+  status: 'active',
+  auto_recurring: { frequency: 1, frequency_type: 'months', transaction_amount: 1000, currency_id },
+});
+
+const preApproval = (status: string) => ({
+  id: 'sub_1',
+  status,
+  auto_recurring: { frequency: 1, frequency_type: 'months', transaction_amount: 1000, currency_id: 'ARS' },
+});
+
+const createApiClient = () => ({
+  createPreApprovalPlan: jest.fn(async (body: any) => ({ id: 'plan_1', ...body })),
+  getPreApprovalPlan: jest.fn(async () => preApprovalPlan('ARS')),
+  updatePreApprovalPlan: jest.fn(async (_id: string, body: any) => ({ ...preApprovalPlan('ARS'), ...body })),
+  getPreApproval: jest.fn(async () => preApproval('authorized')),
+  updatePreApproval: jest.fn(async (_id: string, body: any) => ({ ...preApproval('authorized'), ...body })),
+});
+
+const createService = (apiClient: ReturnType<typeof createApiClient>) =>
+  new MercadoPagoSubscriptionService(
+    {
+      accessToken: 'TEST-TOKEN',
+      baseUrl: 'https://tienda.example.com',
+      WEBHOOK_URL: 'https://tienda.example.com/api/webhooks',
+      currency: 'ARS',
+      logger: silentLogger,
+    },
+    apiClient as unknown as MercadoPagoApiClient
+  );
+
+describe('SubscriptionMapper', () => {
+  it('maps auto_recurring to the API shape, rounding the amount to the currency', () => {
+    expect(
+      SubscriptionMapper.toApiAutoRecurring(
+        { frequency: 1, frequency_type: 'months', transaction_amount: 1999.999, billing_day: 10 },
+        'ARS'
+      )
+    ).toMatchObject({ frequency: 1, frequency_type: 'months', transaction_amount: 2000, currency_id: 'ARS', billing_day: 10 });
+  });
+
+  it('maps payment_methods_allowed to arrays of ids and back', () => {
+    const allowed = SubscriptionMapper.toApiPaymentMethodsAllowed({ payment_types: ['credit_card'], payment_methods: ['visa'] });
+    expect(allowed).toEqual({ payment_types: [{ id: 'credit_card' }], payment_methods: [{ id: 'visa' }] });
+
+    const plan = SubscriptionMapper.toSubscriptionPlan({ ...preApprovalPlan('ARS'), payment_methods_allowed: allowed });
+    expect(plan.payment_methods_allowed).toEqual({ payment_types: ['credit_card'], payment_methods: ['visa'] });
+  });
+
+  it('reads charge totals from summarized and drops non-object free trials', () => {
+    const subscription = SubscriptionMapper.toSubscription({
+      ...preApproval('authorized'),
+      auto_recurring: { ...preApproval('authorized').auto_recurring, free_trial: '' },
+      summarized: { charged_quantity: 2, charged_amount: 2000 },
+    });
+
+    expect(subscription).toMatchObject({ charged_quantity: 2, charged_amount: 2000, external_reference: null });
+    expect(subscription.auto_recurring.free_trial).toBeNull();
+  });
+});
+
+describe('MercadoPagoSubscriptionService plans', () => {
+  it('creates plans with the default back_url and the configured currency', async () => {
+    const apiClient = createApiClient();
+    await createService(apiClient).createPlan({
+      reason: 'Plan mensual',
+      auto_recurring: { frequency: 1, frequency_type: 'months', transaction_amount: 1000 },
+    });
+
+    expect(apiClient.createPreApprovalPlan.mock.calls[0][0]).toMatchObject({
+      back_url: 'https://tienda.example.com/subscription/success',
+      auto_recurring: { currency_id: 'ARS', transaction_amount: 1000 },
+    });
+  });
+
+  it('validates partial updates in the plan currency and never sends currency_id', async () => {
+    const apiClient = createApiClient();
+    apiClient.getPreApprovalPlan.mockResolvedValue(preApprovalPlan('COP'));
+    const service = createService(apiClient);
+
+    // El servicio está configurado en ARS, pero el plan cobra en COP (sin decimales)
+    const withDecimals = await service.updatePlan('plan_1', { auto_recurring: { transaction_amount: 15000.5 } });
+    expect(withDecimals.error?.code).toBe('validation_error');
+
+    const result = await service.updatePlan('plan_1', { auto_recurring: { transaction_amount: 15000 } });
+    expect(result.success).toBe(true);
+    expect(apiClient.updatePreApprovalPlan).toHaveBeenCalledTimes(1);
+    const body = apiClient.updatePreApprovalPlan.mock.calls[0][1];
+    expect(body.auto_recurring.transaction_amount).toBe(15000);
+    expect(body.auto_recurring).not.toHaveProperty('currency_id');
+  });
+
+  it('rejects changing the plan currency', async () => {
+    const apiClient = createApiClient();
+    apiClient.getPreApprovalPlan.mockResolvedValue(preApprovalPlan('COP'));
+
+    const result = await createService(apiClient).updatePlan('plan_1', {
+      auto_recurring: { transaction_amount: 100, currency: 'ARS' },
+    });
+
+    expect(result.error?.code).toBe('plan_currency_mismatch');
+    expect(apiClient.updatePreApprovalPlan).not.toHaveBeenCalled();
+  });
+
+  it('does not fetch the plan when the amount is not updated', async () => {
+    const apiClient = createApiClient();
+
+    await createService(apiClient).updatePlan('plan_1', { reason: 'Plan anual' });
+
+    expect(apiClient.getPreApprovalPlan).not.toHaveBeenCalled();
+    expect(apiClient.updatePreApprovalPlan.mock.calls[0][1]).toMatchObject({ reason: 'Plan anual' });
+  });
+});
+
+describe('MercadoPagoSubscriptionService status transitions', () => {
+  it.each([
+    ['pauseSubscription', 'authorized', 'paused'],
+    ['resumeSubscription', 'paused', 'authorized'],
+    ['cancelSubscription', 'pending', 'cancelled'],
+    ['cancelSubscription', 'paused', 'cancelled'],
+  ] as const)('%s moves %s to %s', async (method, from, to) => {
+    const apiClient = createApiClient();
+    apiClient.getPreApproval.mockResolvedValue(preApproval(from));
+
+    const result = await createService(apiClient)[method]('sub_1');
+
+    expect(result.success).toBe(true);
+    expect(apiClient.updatePreApproval).toHaveBeenCalledWith('sub_1', { status: to });
+  });
+
+  it.each([
+    ['pauseSubscription', 'pending'],
+    ['pauseSubscription', 'cancelled'],
+    ['resumeSubscription', 'pending'],
+    ['resumeSubscription', 'cancelled'],
+  ] as const)('%s rejects a %s subscription without calling the API', async (method, from) => {
+    const apiClient = createApiClient();
+    apiClient.getPreApproval.mockResolvedValue(preApproval(from));
+
+    const result = await createService(apiClient)[method]('sub_1');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('subscription_invalid_transition');
+    expect(result.error?.status).toBe(409);
+    expect(apiClient.updatePreApproval).not.toHaveBeenCalled();
+  });
+
+  it('returns the subscription unchanged when it is already in the target status', async () => {
+    const apiClient = createApiClient();
+    apiClient.getPreApproval.mockResolvedValue(preApproval('paused'));
+
+    const result = await createService(apiClient).pauseSubscription('sub_1');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.status).toBe('paused');
+    expect(apiClient.updatePreApproval).not.toHaveBeenCalled();
+  });
+
+  it('does not update cancelled subscriptions', async () => {
+    const apiClient = createApiClient();
+    apiClient.getPreApproval.mockResolvedValue(preApproval('cancelled'));
+
+    const result = await createService(apiClient).updateSubscription('sub_1', { transaction_amount: 500 });
+
+    expect(result.error?.code).toBe('subscription_cancelled');
+    expect(apiClient.updatePreApproval).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+// test/MercadoPagoWebhookHandler.test.ts
+
+import { createHmac } from 'crypto';
+import { MercadoPagoWebhookHandler } from '../src/webhooks/MercadoPagoWebhookHandler';
+import { MercadoPagoApiClient } from '../src/api/MercadoPagoApiClient';
+import { InMemoryWebhookDedupStore } from '../src/stores/InMemoryWebhookDedupStore';
+import { Logger } from '../src/types';
+
+const SECRET = 'secreto';
+const silentLogger: Logger = { debug() {}, info() {}, warn() {}, error() {} };
+
+const signedHeaders = (dataId: string, requestId = 'req-1') => {
+  const ts = String(Math.floor(Date.now() / 1000));
+  const v1 = createHmac('sha256', SECRET).update(`id:${dataId};request-id:${requestId};ts:${ts};`).digest('hex');
+  return { 'x-signature': `ts=${ts},v1=${v1}`, 'x-request-id': requestId };
+};
+
+const handler = () =>
+  new MercadoPagoWebhookHandler({
+    accessToken: 'TEST-TOKEN',
+    webhookSecret: SECRET,
+    enableSignatureValidation: true,
+    logger: silentLogger,
+  });
+
+const body = (dataId: string) => JSON.stringify({ id: 1, type: 'payment', action: 'payment.updated', data: { id: dataId } });
+
+describe('MercadoPagoWebhookHandler signature binding', () => {
+  it('rejects a signed notification replayed with another resource id in the body', async () => {
+    const result = await handler().processWebhookData(body('222'), signedHeaders('111'), { 'data.id': '111' });
+
+    expect(result.status).toBe(403);
+    expect(result.signature_error?.code).toBe('data_id_mismatch');
+  });
+
+  it('rejects IPN resources that differ from the signed data.id', async () => {
+    const ipn = JSON.stringify({ topic: 'payment', resource: 'https://api.mercadolibre.com/collections/notifications/222' });
+    const result = await handler().processWebhookData(ipn, signedHeaders('111'), { 'data.id': '111' });
+
+    expect(result.status).toBe(403);
+  });
+
+  it('does not fall back to the unsigned body id when the query is missing', async () => {
+    const result = await handler().processWebhookData(body('111'), signedHeaders('111'));
+
+    expect(result.status).toBe(403);
+  });
+
+  it('accepts a notification whose body matches the signed data.id', async () => {
+    const { isValid } = await handler().validateWebhookOnly(body('111'), signedHeaders('111'), { 'data.id': '111' });
+
+    expect(isValid).toBe(true);
+  });
+});
+
+describe('MercadoPagoWebhookHandler deduplication', () => {
+  const payment = { id: 111, status: 'approved', transaction_amount: 100, currency_id: 'ARS' };
+  const deliver = (webhookHandler: MercadoPagoWebhookHandler) =>
+    webhookHandler.processWebhookData(body('111'), signedHeaders('111'), { 'data.id': '111' });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('processes concurrent deliveries of the same notification only once', async () => {
+    const getPayment = jest.spyOn(MercadoPagoApiClient.prototype, 'getPayment').mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return payment as any;
+    });
+    const webhookHandler = handler();
+
+    const results = await Promise.all([deliver(webhookHandler), deliver(webhookHandler)]);
+
+    expect(getPayment).toHaveBeenCalledTimes(1);
+    expect(results.map(result => result.status).sort()).toEqual([200, 409]);
+
+    const redelivery = await deliver(webhookHandler);
+    expect(redelivery).toMatchObject({ status: 200, duplicate: true });
+    expect(getPayment).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the claim when processing fails so the retry is processed', async () => {
+    const getPayment = jest
+      .spyOn(MercadoPagoApiClient.prototype, 'getPayment')
+      .mockRejectedValueOnce(Object.assign(new Error('Service Unavailable'), { status: 503 }))
+      .mockResolvedValue(payment as any);
+    const webhookHandler = handler();
+
+    expect((await deliver(webhookHandler)).status).toBe(500);
+
+    const retry = await deliver(webhookHandler);
+    expect(retry.status).toBe(200);
+    expect(retry.duplicate).toBeUndefined();
+    expect(getPayment).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('InMemoryWebhookDedupStore', () => {
+  it('claims a key once until it is released or expires', async () => {
+    const store = new InMemoryWebhookDedupStore();
+
+    expect(store.claim('key', 60000)).toBe(true);
+    expect(store.claim('key', 60000)).toBe(false);
+
+    store.release('key');
+    expect(store.claim('key', 60000)).toBe(true);
+
+    expect(store.claim('short', 10)).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(store.claim('short', 10)).toBe(true);
+  });
+
+  it('does not claim keys that were already processed', () => {
+    const store = new InMemoryWebhookDedupStore();
+    store.claim('key', 60000);
+    store.set('key', { success: true, status: 200, message: 'ok' }, 60000);
+
+    store.release('key');
+    expect(store.claim('key', 60000)).toBe(false);
+  });
+});
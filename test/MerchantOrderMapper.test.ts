@@ -0,0 +1,58 @@
+// test/MerchantOrderMapper.test.ts
+
+import { MerchantOrderMapper } from '../src/mappers/MerchantOrderMapper';
+
+const merchantOrder = (payments: any[], extra: Record<string, any> = {}) => ({
+  id: 10,
+  status: 'opened',
+  total_amount: 1000,
+  items: [{ currency_id: 'ARS' }],
+  payments,
+  ...extra,
+});
+
+const approved = (transaction_amount: number, extra: Record<string, any> = {}) => ({
+  id: Math.floor(Math.random() * 1e6),
+  status: 'approved',
+  transaction_amount,
+  ...extra,
+});
+
+describe('MerchantOrderMapper.toMerchantOrderInfo', () => {
+  it('settles installment payments on transaction_amount, not on the amount with interest', () => {
+    const info = MerchantOrderMapper.toMerchantOrderInfo(
+      merchantOrder([approved(1000, { total_paid_amount: 1180.5, installments: 6 })])
+    );
+
+    expect(info.payment_state).toBe('paid');
+    expect(info.paid_amount).toBe(1000);
+    expect(info.balance).toBe(0);
+    expect(info.payments[0].total_paid_amount).toBe(1180.5);
+  });
+
+  it('subtracts refunds and ignores payments that are not approved', () => {
+    const info = MerchantOrderMapper.toMerchantOrderInfo(
+      merchantOrder([approved(1000, { amount_refunded: 250 }), { id: 2, status: 'rejected', transaction_amount: 1000 }])
+    );
+
+    expect(info.payment_state).toBe('partially_paid');
+    expect(info.refunded_amount).toBe(250);
+    expect(info.balance).toBe(250);
+  });
+
+  it('adds the shipping cost to the amount to collect', () => {
+    const info = MerchantOrderMapper.toMerchantOrderInfo(
+      merchantOrder([approved(600), approved(500)], { shipping_cost: 100 })
+    );
+
+    expect(info.total_amount).toBe(1100);
+    expect(info.payment_state).toBe('paid');
+  });
+
+  it('reports overpaid orders with a negative balance', () => {
+    const info = MerchantOrderMapper.toMerchantOrderInfo(merchantOrder([approved(1000), approved(10)]));
+
+    expect(info.payment_state).toBe('overpaid');
+    expect(info.balance).toBe(-10);
+  });
+});
@@ -0,0 +1,98 @@
+// test/OrderStateMachine.test.ts
+
+import { InvalidOrderTransitionError, OrderStateMachine } from '../src/orders/OrderStateMachine';
+import { InMemoryOrderRepository } from '../src/orders/InMemoryOrderRepository';
+import { Order, OrderStatus } from '../src/types';
+
+const order = (status: OrderStatus): Order => ({
+  id: 'order_1',
+  external_reference: 'order_1',
+  customer_info: { name: 'Ana', email: 'ana@example.com' },
+  items: [],
+  subtotal_amount: 100,
+  discount_amount: 0,
+  tax_amount: 0,
+  total_amount: 100,
+  total_items: 1,
+  currency_id: 'ARS',
+  preference_id: 'pref_1',
+  status,
+  created_at: '2024-01-01T00:00:00.000Z',
+  expires_at: '2024-01-02T00:00:00.000Z',
+});
+
+describe('OrderStateMachine.canTransition', () => {
+  it.each([
+    ['pending', 'approved'],
+    ['pending', 'rejected'],
+    ['pending', 'expired'],
+    ['pending', 'refunded'],
+    ['pending', 'charged_back'],
+    ['authorized', 'approved'],
+    ['authorized', 'refunded'],
+    ['rejected', 'approved'],
+    ['approved', 'partially_refunded'],
+    ['partially_refunded', 'partially_refunded'],
+    ['partially_refunded', 'refunded'],
+    ['approved', 'charged_back'],
+  ] as Array<[OrderStatus, OrderStatus]>)('allows %s -> %s', (from, to) => {
+    expect(OrderStateMachine.canTransition(from, to)).toBe(true);
+  });
+
+  it.each([
+    ['approved', 'pending'],
+    ['approved', 'rejected'],
+    ['refunded', 'approved'],
+    ['charged_back', 'refunded'],
+    ['expired', 'approved'],
+    ['cancelled', 'approved'],
+  ] as Array<[OrderStatus, OrderStatus]>)('rejects %s -> %s', (from, to) => {
+    expect(OrderStateMachine.canTransition(from, to)).toBe(false);
+    expect(() => OrderStateMachine.assertTransition(from, to)).toThrow(InvalidOrderTransitionError);
+  });
+
+  it('treats repeated statuses as valid and terminal statuses as final', () => {
+    expect(OrderStateMachine.canTransition('refunded', 'refunded')).toBe(true);
+    expect(OrderStateMachine.isFinal('refunded')).toBe(true);
+    expect(OrderStateMachine.isFinal('pending')).toBe(false);
+  });
+});
+
+describe('OrderStateMachine.applyStatus', () => {
+  it('applies a refund that arrives before the approval webhook', async () => {
+    const repository = new InMemoryOrderRepository();
+    repository.save(order('pending'));
+
+    const update = await OrderStateMachine.applyStatus(repository, order('pending'), 'refunded');
+
+    expect(update).toMatchObject({ applied: true, previous_status: 'pending', status: 'refunded' });
+    expect(repository.findById('order_1')?.status).toBe('refunded');
+  });
+
+  it('does not persist illegal transitions', async () => {
+    const repository = new InMemoryOrderRepository();
+    repository.save(order('refunded'));
+
+    const update = await OrderStateMachine.applyStatus(repository, order('refunded'), 'approved');
+
+    expect(update).toMatchObject({ applied: false, status: 'refunded' });
+    expect(update.error).toContain('refunded to approved');
+    expect(repository.findById('order_1')?.status).toBe('refunded');
+  });
+
+  it('does not write when the status does not change', async () => {
+    const repository = new InMemoryOrderRepository();
+    const updateStatus = jest.spyOn(repository, 'updateStatus');
+
+    const update = await OrderStateMachine.applyStatus(repository, order('approved'), 'approved');
+
+    expect(update.applied).toBe(true);
+    expect(updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('maps webhook payment statuses to order statuses', () => {
+    expect(OrderStateMachine.fromPaymentStatus('chargeback')).toBe('charged_back');
+    expect(OrderStateMachine.fromPaymentStatus('unknown')).toBeNull();
+    expect(OrderStateMachine.fromPaymentStatus(null)).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+// test/PaymentValidator.test.ts
+
+import { PaymentValidator } from '../src/validators/PaymentValidator';
+import { ValidationRules } from '../src/validators/ValidationRules';
+import { TotalsCalculator } from '../src/pricing/TotalsCalculator';
+import { PAYMENT_TYPE_IDS } from '../src/utils/preference';
+import { PaymentRequest, PreferenceOptions } from '../src/types';
+
+const baseRequest = (extra: Partial<PaymentRequest> = {}): PaymentRequest => ({
+  items: [{ title: 'Producto', quantity: 1, unit_price: 100 }],
+  customer_info: { name: 'Ana', email: 'ana@example.com' },
+  ...extra,
+});
+
+// [código, ruta] de cada issue, para comparar sin depender del texto traducido
+const issuesOf = (request: any, preferenceDefaults: PreferenceOptions = {}) =>
+  PaymentValidator.validatePaymentRequest(request, 'ARS', {}, preferenceDefaults).issues.map(issue => [issue.code, issue.path]);
+
+describe('PaymentValidator preference options', () => {
+  it('accepts a consistent combination of options', () => {
+    expect(
+      issuesOf(
+        baseRequest({
+          preference: {
+            default_installments: 3,
+            max_installments: 6,
+            excluded_payment_types: ['ticket', 'atm'],
+            back_urls: { success: 'https://tienda.example.com/ok' },
+          },
+        })
+      )
+    ).toEqual([]);
+  });
+
+  it('rejects default installments above the max', () => {
+    expect(issuesOf(baseRequest({ preference: { default_installments: 6, max_installments: 3 } }))).toEqual([
+      ['exceeds_max_installments', 'preference.default_installments'],
+    ]);
+  });
+
+  it('compares default installments with the max from the config defaults', () => {
+    expect(issuesOf(baseRequest({ preference: { default_installments: 6 } }), { max_installments: 3 })).toEqual([
+      ['exceeds_max_installments', 'preference.default_installments'],
+    ]);
+  });
+
+  it('rejects installments when credit_card is excluded', () => {
+    expect(
+      issuesOf(baseRequest({ preference: { max_installments: 6, excluded_payment_types: ['credit_card'] } }))
+    ).toEqual([['installments_require_credit_card', 'preference.max_installments']]);
+
+    expect(
+      issuesOf(baseRequest({ preference: { max_installments: 1, excluded_payment_types: ['credit_card'] } }))
+    ).toEqual([]);
+  });
+
+  it('rejects excluding every payment type', () => {
+    expect(issuesOf(baseRequest({ preference: { max_installments: 1, excluded_payment_types: PAYMENT_TYPE_IDS } }))).toEqual([
+      ['all_payment_types_excluded', 'preference.excluded_payment_types'],
+    ]);
+  });
+
+  it('rejects installments out of range and non-http back URLs', () => {
+    expect(
+      issuesOf(baseRequest({ preference: { max_installments: 48, back_urls: { failure: 'tienda.example.com/error' } } }))
+    ).toEqual([
+      ['invalid_url', 'preference.back_urls.failure'],
+      ['out_of_range', 'preference.max_installments'],
+    ]);
+  });
+});
+
+describe('PaymentValidator shipping', () => {
+  const dimensions = { height: 10, width: 20, length: 30, weight: 500 };
+
+  it('accepts a flat cost in custom mode and dimensions in me2 mode', () => {
+    expect(issuesOf(baseRequest({ shipping: { mode: 'custom', cost: 15.5 } }))).toEqual([]);
+    expect(issuesOf(baseRequest({ shipping: { mode: 'custom', free_shipping: true } }))).toEqual([]);
+    expect(issuesOf(baseRequest({ shipping: { mode: 'me2', dimensions } }))).toEqual([]);
+  });
+
+  it('rejects a cost in me2 mode', () => {
+    expect(issuesOf(baseRequest({ shipping: { mode: 'me2', cost: 15, dimensions } }))).toEqual([
+      ['not_allowed_for_mode', 'shipping.cost'],
+    ]);
+  });
+
+  it('rejects a cost together with free shipping', () => {
+    expect(issuesOf(baseRequest({ shipping: { mode: 'custom', cost: 15, free_shipping: true } }))).toEqual([
+      ['free_shipping_with_cost', 'shipping.cost'],
+    ]);
+  });
+
+  it('requires dimensions in me2 mode and a cost in custom mode', () => {
+    expect(issuesOf(baseRequest({ shipping: { mode: 'me2' } }))).toEqual([['required', 'shipping.dimensions']]);
+    expect(issuesOf(baseRequest({ shipping: { mode: 'custom' } }))).toEqual([['required', 'shipping.cost']]);
+  });
+
+  it('validates the cost precision against the currency', () => {
+    expect(issuesOf(baseRequest({ shipping: { mode: 'custom', cost: 15.555 } }))).toEqual([
+      ['invalid_precision', 'shipping.cost'],
+    ]);
+  });
+});
+
+describe('ValidationRules.maxCartTotal', () => {
+  const options = { rules: [ValidationRules.maxCartTotal(100)] };
+  const cart = (extra: Partial<PaymentRequest> = {}) => baseRequest({ items: [{ title: 'Producto', quantity: 2, unit_price: 60 }], ...extra });
+
+  it('accepts a cart over the limit at list price that a coupon brings under it', () => {
+    const request = cart({ coupon_code: 'OTOÑO' });
+    const totals = TotalsCalculator.calculate(request, { currency: 'ARS', coupon: { type: 'fixed', value: 30, code: 'OTOÑO' } });
+
+    expect(totals.total).toBe(90);
+    expect(PaymentValidator.validateTotals(totals, options, request).isValid).toBe(true);
+  });
+
+  it('rejects a cart under the limit at list price that taxes and shipping push over it', () => {
+    const request = baseRequest({
+      items: [{ title: 'Producto', quantity: 1, unit_price: 80 }],
+      shipping: { mode: 'custom', cost: 10 },
+    });
+    const totals = TotalsCalculator.calculate(request, { currency: 'ARS', tax: { rate: 21, inclusive: false } });
+
+    const result = PaymentValidator.validateTotals(totals, options, request);
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({ code: 'cart_total_exceeded', params: { total: 106.8, max: 100, currency: 'ARS' } }),
+    ]);
+  });
+
+  it('does not run the rules while validating the request alone', () => {
+    expect(PaymentValidator.validatePaymentRequest(cart(), 'ARS', options).isValid).toBe(true);
+  });
+});
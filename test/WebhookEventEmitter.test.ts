@@ -0,0 +1,117 @@
+// test/WebhookEventEmitter.test.ts
+
+import { createHmac } from 'crypto';
+import { WebhookEventEmitter } from '../src/webhooks/WebhookEventEmitter';
+import { MercadoPagoWebhookHandler } from '../src/webhooks/MercadoPagoWebhookHandler';
+import { MercadoPagoApiClient } from '../src/api/MercadoPagoApiClient';
+import { Logger, MerchantOrderInfo, WebhookLogData, WebhookResult } from '../src/types';
+
+const silentLogger: Logger = { debug() {}, info() {}, warn() {}, error() {} };
+
+const paymentResult = (status: string, mappedStatus: string): WebhookResult => ({
+  webhook_log: {} as WebhookLogData,
+  payment_info: { id: 111, status, transaction_amount: 100, currency_id: 'ARS' },
+  mapped_status: mappedStatus,
+});
+
+const merchantOrderResult = (status: string): WebhookResult => ({
+  webhook_log: {} as WebhookLogData,
+  payment_info: null,
+  merchant_order_info: { id: '555', status } as MerchantOrderInfo,
+  mapped_status: null,
+});
+
+describe('WebhookEventEmitter', () => {
+  it.each([
+    ['payment.approved', paymentResult('approved', 'approved')],
+    ['payment.refunded', paymentResult('refunded', 'refunded')],
+    ['merchant_order.closed', merchantOrderResult('closed')],
+  ] as Array<[string, WebhookResult]>)('dispatches %s', async (event, result) => {
+    const emitter = new WebhookEventEmitter();
+    const listener = jest.fn();
+    emitter.on(event as any, listener);
+
+    await expect(emitter.dispatch(result)).resolves.toBe(event);
+    expect(listener).toHaveBeenCalledWith(expect.any(Object), result);
+  });
+
+  it('passes the payment mapped to PaymentResultWeebhook', async () => {
+    const emitter = new WebhookEventEmitter();
+    const listener = jest.fn();
+    emitter.on('payment.approved', listener);
+
+    await emitter.dispatch(paymentResult('approved', 'approved'));
+
+    expect(listener.mock.calls[0][0]).toMatchObject({ id: '111', status: 'approved' });
+  });
+
+  it('only calls the listeners of the dispatched event', async () => {
+    const emitter = new WebhookEventEmitter();
+    const approved = jest.fn();
+    const refunded = jest.fn();
+    emitter.on('payment.approved', approved);
+    emitter.on('payment.refunded', refunded);
+
+    await emitter.dispatch(paymentResult('refunded', 'refunded'));
+
+    expect(approved).not.toHaveBeenCalled();
+    expect(refunded).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops calling listeners removed with off', async () => {
+    const emitter = new WebhookEventEmitter();
+    const listener = jest.fn();
+    emitter.on('merchant_order.closed', listener);
+    emitter.off('merchant_order.closed', listener);
+
+    await expect(emitter.dispatch(merchantOrderResult('closed'))).resolves.toBe('merchant_order.closed');
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('returns null for statuses without an event', async () => {
+    const emitter = new WebhookEventEmitter();
+
+    await expect(emitter.dispatch(paymentResult('in_process', 'in_process'))).resolves.toBeNull();
+    await expect(emitter.dispatch(merchantOrderResult('unknown'))).resolves.toBeNull();
+  });
+});
+
+describe('MercadoPagoWebhookHandler listeners', () => {
+  const SECRET = 'secreto';
+
+  const deliver = (webhookHandler: MercadoPagoWebhookHandler) => {
+    const ts = String(Math.floor(Date.now() / 1000));
+    const v1 = createHmac('sha256', SECRET).update(`id:111;request-id:req-1;ts:${ts};`).digest('hex');
+    const body = JSON.stringify({ id: 1, type: 'payment', action: 'payment.updated', data: { id: '111' } });
+    return webhookHandler.processWebhookData(body, { 'x-signature': `ts=${ts},v1=${v1}`, 'x-request-id': 'req-1' }, { 'data.id': '111' });
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('answers 500 when a listener throws and processes the retry again', async () => {
+    const getPayment = jest
+      .spyOn(MercadoPagoApiClient.prototype, 'getPayment')
+      .mockResolvedValue({ id: 111, status: 'approved', transaction_amount: 100, currency_id: 'ARS' } as any);
+    const listener = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('database unavailable'))
+      .mockResolvedValue(undefined);
+    const webhookHandler = new MercadoPagoWebhookHandler({
+      accessToken: 'TEST-TOKEN',
+      webhookSecret: SECRET,
+      enableSignatureValidation: true,
+      logger: silentLogger,
+    }).on('payment.approved', listener);
+
+    const failed = await deliver(webhookHandler);
+    expect(failed).toMatchObject({ success: false, status: 500, error: 'database unavailable' });
+
+    const retry = await deliver(webhookHandler);
+    expect(retry).toMatchObject({ success: true, status: 200, event: 'payment.approved' });
+    expect(retry.duplicate).toBeUndefined();
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(getPayment).toHaveBeenCalledTimes(2);
+  });
+});
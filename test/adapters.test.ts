@@ -0,0 +1,20 @@
+// test/adapters.test.ts
+
+import { fromFetchRequest } from '../src/webhooks/adapters';
+
+describe('fromFetchRequest', () => {
+  it('reads headers, body and the signed query from a Fetch request', async () => {
+    const request = new Request('https://tienda.example.com/api/webhooks?data.id=123&type=payment', {
+      method: 'POST',
+      headers: { 'X-Signature': 'ts=1,v1=abc', 'x-forwarded-for': '203.0.113.7' },
+      body: '{"data":{"id":"123"}}',
+    });
+
+    const data = await fromFetchRequest(request);
+
+    expect(data.headers['x-signature']).toBe('ts=1,v1=abc');
+    expect(data.body).toBe('{"data":{"id":"123"}}');
+    expect(data.query).toMatchObject({ 'data.id': '123', type: 'payment' });
+    expect(data.clientIP).toBe('203.0.113.7');
+  });
+});
@@ -0,0 +1,43 @@
+// test/createCheckoutRoute.test.ts
+
+import { NextRequest } from 'next/server';
+import { createCheckoutRoute } from '../src/next/createCheckoutRoute';
+import { MercadoPagoService } from '../src/MercadoPagoService';
+
+const post = (body: string) =>
+  new NextRequest('https://tienda.example.com/api/checkout', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body,
+  });
+
+describe('createCheckoutRoute', () => {
+  const processPayment = jest.fn();
+  const { POST } = createCheckoutRoute({ processPayment } as unknown as MercadoPagoService);
+
+  afterEach(() => processPayment.mockReset());
+
+  it.each(['null', '42', '"texto"', '[]'])('rejects the JSON body %s with 400', async body => {
+    const response = await POST(post(body));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ success: false, code: 'invalid_body' });
+    expect(processPayment).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed JSON with 400', async () => {
+    const response = await POST(post('{'));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'invalid_json' });
+  });
+
+  it('passes JSON objects to processPayment', async () => {
+    processPayment.mockResolvedValue({ success: true, data: { order_id: 'order_1' } });
+
+    const response = await POST(post('{"items":[]}'));
+
+    expect(response.status).toBe(200);
+    expect(processPayment).toHaveBeenCalledWith({ items: [] }, { locale: undefined, seller: undefined });
+  });
+});
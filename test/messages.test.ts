@@ -0,0 +1,25 @@
+// test/messages.test.ts
+
+import { FIELD_LABELS, MESSAGES, formatIssue } from '../src/validators/messages';
+import { ValidationLocale } from '../src/types';
+
+// es es el catálogo de referencia
+const locales = (Object.keys(MESSAGES) as ValidationLocale[]).filter(locale => locale !== 'es');
+
+describe('validation catalogs', () => {
+  it.each(locales)('%s has the same message codes as es', locale => {
+    expect(Object.keys(MESSAGES[locale]).sort()).toEqual(Object.keys(MESSAGES.es).sort());
+  });
+
+  it.each(locales)('%s has the same field labels as es', locale => {
+    expect(Object.keys(FIELD_LABELS[locale]).sort()).toEqual(Object.keys(FIELD_LABELS.es).sort());
+  });
+
+  it('translates payment field labels in English', () => {
+    expect(formatIssue({ code: 'required', path: 'currency' }, 'en').message).toBe('Currency is required');
+    expect(formatIssue({ code: 'not_positive_number', path: 'amount' }, 'en').message).toBe('Amount must be a number greater than 0');
+    expect(formatIssue({ code: 'out_of_range', path: 'installments', params: { min: 1, max: 12 } }, 'en').message).toBe(
+      'Installments must be an integer between 1 and 12'
+    );
+  });
+});
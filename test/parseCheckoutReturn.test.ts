@@ -0,0 +1,63 @@
+// test/parseCheckoutReturn.test.ts
+
+import { parseCheckoutReturn } from '../src/react/parseCheckoutReturn';
+
+describe('parseCheckoutReturn', () => {
+  it('reads an approved return from the query string', () => {
+    expect(
+      parseCheckoutReturn(
+        '?status=approved&payment_id=123&external_reference=order_1&merchant_order_id=555&preference_id=pref_1&payment_type=credit_card'
+      )
+    ).toEqual({
+      status: 'approved',
+      payment_id: '123',
+      external_reference: 'order_1',
+      merchant_order_id: '555',
+      preference_id: 'pref_1',
+      payment_type: 'credit_card',
+      is_approved: true,
+      is_pending: false,
+    });
+  });
+
+  it('falls back to collection_status and collection_id', () => {
+    const params = parseCheckoutReturn(new URLSearchParams('collection_status=in_process&collection_id=456'));
+
+    expect(params).toMatchObject({ status: 'in_process', payment_id: '456', is_approved: false, is_pending: true });
+  });
+
+  it('prefers status and payment_id over the collection_ aliases', () => {
+    expect(parseCheckoutReturn('status=rejected&collection_status=approved&payment_id=1&collection_id=2')).toMatchObject({
+      status: 'rejected',
+      payment_id: '1',
+    });
+  });
+
+  it("treats the literal 'null' as a missing value", () => {
+    const params = parseCheckoutReturn('status=null&payment_id=null&collection_id=null&merchant_order_id=null');
+
+    expect(params).toMatchObject({ status: 'null', payment_id: null, merchant_order_id: null, is_approved: false });
+  });
+
+  it('takes the first value of arrays from Next searchParams and ignores undefined', () => {
+    const params = parseCheckoutReturn({
+      status: ['pending', 'approved'],
+      payment_id: '789',
+      external_reference: [],
+      preference_id: undefined,
+    });
+
+    expect(params).toMatchObject({
+      status: 'pending',
+      payment_id: '789',
+      external_reference: null,
+      preference_id: null,
+      is_pending: true,
+    });
+  });
+
+  it('returns unknown for missing or unexpected statuses', () => {
+    expect(parseCheckoutReturn('').status).toBe('unknown');
+    expect(parseCheckoutReturn('status=refunded').status).toBe('unknown');
+  });
+});
@@ -0,0 +1,81 @@
+// test/redact.test.ts
+
+import { REDACTED, redactPayerData, redactWebhookLog } from '../src/logging/redact';
+import { WebhookLogData } from '../src/types';
+
+const payment = {
+  id: 123,
+  status: 'approved',
+  transaction_amount: 100,
+  external_reference: 'order_1',
+  payer: {
+    email: 'juan.perez@mail.com',
+    first_name: 'Juan',
+    last_name: 'Pérez',
+    identification: { type: 'DNI', number: '30123456' },
+    phone: { area_code: '11', number: '44445555' },
+  },
+  additional_info: {
+    payer: { first_name: 'Juan', address: { street_name: 'Corrientes', zip_code: '1000' } },
+    shipments: { receiver_address: { street_name: 'Corrientes', street_number: '1234' } },
+  },
+  card: { cardholder: { name: 'JUAN PEREZ', identification: { type: 'DNI', number: '30123456' } } },
+  metadata: { customer_email: 'juan.perez@mail.com', customer_name: 'Juan Pérez' },
+};
+
+describe('redactPayerData', () => {
+  it('masks payer PII anywhere in a payment', () => {
+    const redacted = redactPayerData(payment);
+
+    expect(redacted.payer).toEqual({
+      email: 'j***@mail.com',
+      first_name: REDACTED,
+      last_name: REDACTED,
+      identification: { type: 'DNI', number: REDACTED },
+      phone: REDACTED,
+    });
+    expect(redacted.additional_info.payer).toEqual({ first_name: REDACTED, address: REDACTED });
+    expect(redacted.additional_info.shipments.receiver_address).toBe(REDACTED);
+    expect(redacted.card.cardholder).toEqual({ name: REDACTED, identification: { type: 'DNI', number: REDACTED } });
+    expect(redacted.metadata).toEqual({ customer_email: 'j***@mail.com', customer_name: REDACTED });
+  });
+
+  it('keeps the fields needed to reconcile the payment', () => {
+    const redacted = redactPayerData(payment);
+
+    expect(redacted).toMatchObject({ id: 123, status: 'approved', transaction_amount: 100, external_reference: 'order_1' });
+    expect(payment.payer.email).toBe('juan.perez@mail.com');
+  });
+});
+
+describe('redactWebhookLog', () => {
+  const logData = {
+    webhook_id: '1',
+    payment_id: '123',
+    topic: 'payment',
+    action: 'payment.updated',
+    live_mode: true,
+    user_id: null,
+    api_version: 'v1',
+    date_created: '2024-01-01T00:00:00.000Z',
+    raw_data: { data: { id: '123' }, payer: { email: 'juan.perez@mail.com' } },
+    headers_received: { 'x-signature': 'ts=1,v1=abc', 'content-type': 'application/json' },
+    processed_at: '2024-01-01T00:00:00.000Z',
+    payer_email: 'juan.perez@mail.com',
+  } as WebhookLogData;
+
+  it('redacts headers, the payer email and the raw notification', () => {
+    const redacted = redactWebhookLog(logData, { sensitiveHeaders: ['x-signature'], payerData: true });
+
+    expect(redacted.headers_received).toEqual({ 'x-signature': REDACTED, 'content-type': 'application/json' });
+    expect(redacted.payer_email).toBe('j***@mail.com');
+    expect(redacted.raw_data).toEqual({ data: { id: '123' }, payer: { email: 'j***@mail.com' } });
+  });
+
+  it('leaves payer data untouched when payerData is disabled', () => {
+    const redacted = redactWebhookLog(logData, { sensitiveHeaders: ['x-signature'], payerData: false });
+
+    expect(redacted.payer_email).toBe('juan.perez@mail.com');
+    expect(redacted.raw_data).toBe(logData.raw_data);
+  });
+});
@@ -0,0 +1,261 @@
+// test/test.ts
+
+import { TotalsCalculator } from '../src/pricing/TotalsCalculator';
+import { PaymentItem, PaymentRequest, TotalsBreakdown } from '../src/types';
+import { toMinorUnits } from '../src/utils/currency';
+
+const item = (unit_price: number, quantity = 1, extra: Partial<PaymentItem> = {}): PaymentItem => ({
+  title: 'Producto',
+  quantity,
+  unit_price,
+  ...extra,
+});
+
+const request = (items: PaymentItem[], extra: Partial<PaymentRequest> = {}) => ({ items, ...extra });
+
+// Las líneas y el envío siempre suman el total, sin diferencias de centavos
+const expectReconciled = (totals: TotalsBreakdown) => {
+  const { currency } = totals;
+  const linesMinor = totals.lines.reduce((sum, line) => sum + toMinorUnits(line.total, currency), 0);
+  expect(linesMinor + toMinorUnits(totals.shipping_cost, currency)).toBe(toMinorUnits(totals.total, currency));
+
+  for (const line of totals.lines) {
+    const sent = TotalsCalculator.splitUnitPrices(line, currency)
+      .reduce((sum, group) => sum + toMinorUnits(group.unit_price, currency) * group.quantity, 0);
+    expect(sent).toBe(toMinorUnits(line.total, currency));
+  }
+};
+
+describe('TotalsCalculator.calculate', () => {
+  it('sums list prices without floating point noise', () => {
+    const totals = TotalsCalculator.calculate(request([item(0.1), item(0.2)]), { currency: 'ARS' });
+
+    expect(totals.subtotal).toBe(0.3);
+    expect(totals.total).toBe(0.3);
+    expect(totals.discount_total).toBe(0);
+    expect(totals.tax_total).toBe(0);
+  });
+
+  it('rounds percentage discounts half-up to the currency minor unit', () => {
+    const totals = TotalsCalculator.calculate(
+      request([item(1.05, 1, { discount: { type: 'percentage', value: 50 } })]),
+      { currency: 'ARS' }
+    );
+
+    // 1.05 * 50% = 0.525 -> 0.53
+    expect(totals.discount_total).toBe(0.53);
+    expect(totals.total).toBe(0.52);
+    expect(totals.discounts).toEqual([
+      { type: 'percentage', value: 50, scope: 'item', item_index: 0, amount: 0.53 },
+    ]);
+  });
+
+  it('supports fractional percentages', () => {
+    const totals = TotalsCalculator.calculate(
+      request([item(10, 1, { discount: { type: 'percentage', value: 12.5 } })]),
+      { currency: 'ARS' }
+    );
+
+    expect(totals.discount_total).toBe(1.25);
+    expect(totals.total).toBe(8.75);
+  });
+
+  it('caps fixed discounts at the line subtotal', () => {
+    const totals = TotalsCalculator.calculate(
+      request([item(5, 1, { discount: { type: 'fixed', value: 8 } }), item(3)]),
+      { currency: 'ARS' }
+    );
+
+    expect(totals.lines[0].discount_amount).toBe(5);
+    expect(totals.lines[0].total).toBe(0);
+    expect(totals.discounts[0].amount).toBe(5);
+    expect(totals.total).toBe(3);
+    expectReconciled(totals);
+  });
+
+  it('allocates a cart discount that does not split evenly to the first line on ties', () => {
+    const totals = TotalsCalculator.calculate(
+      request([item(1), item(1), item(1)], { discounts: [{ type: 'fixed', value: 1 }] }),
+      { currency: 'ARS' }
+    );
+
+    expect(totals.lines.map(line => line.discount_amount)).toEqual([0.34, 0.33, 0.33]);
+    expect(totals.discount_total).toBe(1);
+    expect(totals.total).toBe(2);
+    expectReconciled(totals);
+  });
+
+  it('allocates cart discounts by largest remainder', () => {
+    const totals = TotalsCalculator.calculate(
+      request([item(1), item(2)], { discounts: [{ type: 'fixed', value: 1 }] }),
+      { currency: 'ARS' }
+    );
+
+    // 0.3333 y 0.6666: el centavo restante va a la línea con mayor resto
+    expect(totals.lines.map(line => line.discount_amount)).toEqual([0.33, 0.67]);
+    expect(totals.lines.map(line => line.total)).toEqual([0.67, 1.33]);
+    expectReconciled(totals);
+  });
+
+  it('applies item discounts, then cart discounts in order, then the coupon', () => {
+    const totals = TotalsCalculator.calculate(
+      request([item(50, 2, { discount: { type: 'fixed', value: 20 } })], {
+        discounts: [{ type: 'percentage', value: 10 }],
+      }),
+      { currency: 'ARS', coupon: { type: 'fixed', value: 5, code: 'BIENVENIDA' } }
+    );
+
+    // 100 - 20 = 80; 80 - 10% = 72; 72 - 5 = 67
+    expect(totals.discounts.map(discount => discount.amount)).toEqual([20, 8, 5]);
+    expect(totals.discounts[2]).toMatchObject({ scope: 'cart', code: 'BIENVENIDA' });
+    expect(totals.discount_total).toBe(33);
+    expect(totals.total).toBe(67);
+  });
+
+  it('rounds currencies without decimals to whole units', () => {
+    const totals = TotalsCalculator.calculate(
+      request([item(999, 3)], { discounts: [{ type: 'percentage', value: 10 }] }),
+      { currency: 'CLP' }
+    );
+
+    // 2997 * 10% = 299.7 -> 300
+    expect(totals.discount_total).toBe(300);
+    expect(totals.total).toBe(2697);
+  });
+
+  it('adds exclusive taxes rounding the half cent up', () => {
+    const totals = TotalsCalculator.calculate(request([item(0.5)]), {
+      currency: 'ARS',
+      tax: { rate: 21, inclusive: false },
+    });
+
+    // 0.50 * 21% = 0.105 -> 0.11
+    expect(totals.tax_total).toBe(0.11);
+    expect(totals.total).toBe(0.61);
+    expect(totals.tax_inclusive).toBe(false);
+  });
+
+  it('extracts inclusive taxes without changing the total', () => {
+    const totals = TotalsCalculator.calculate(request([item(100)]), {
+      currency: 'ARS',
+      tax: { rate: 19, inclusive: true },
+    });
+
+    // Base imponible 100 / 1.19 = 84.03
+    expect(totals.tax_total).toBe(15.97);
+    expect(totals.total).toBe(100);
+    expect(totals.tax_inclusive).toBe(true);
+  });
+
+  it('extracts inclusive taxes in whole units for COP', () => {
+    const totals = TotalsCalculator.calculate(request([item(100)]), {
+      currency: 'COP',
+      tax: { rate: 19, inclusive: true },
+    });
+
+    expect(totals.tax_total).toBe(16);
+    expect(totals.total).toBe(100);
+  });
+
+  it('rounds taxes per line', () => {
+    const totals = TotalsCalculator.calculate(request([item(0.05), item(0.05), item(0.05)]), {
+      currency: 'ARS',
+      tax: { rate: 10, inclusive: false },
+    });
+
+    // 0.005 por línea se redondea a 0.01 en cada una
+    expect(totals.tax_total).toBe(0.03);
+    expect(totals.total).toBe(0.18);
+    expectReconciled(totals);
+  });
+
+  it('computes taxes on the discounted amount and honours per-item rates', () => {
+    const totals = TotalsCalculator.calculate(
+      request([item(100, 1, { discount: { type: 'percentage', value: 10 } }), item(50, 1, { tax_rate: 0 })]),
+      { currency: 'ARS', tax: { rate: 21, inclusive: false } }
+    );
+
+    expect(totals.lines[0].tax_amount).toBe(18.9);
+    expect(totals.lines[1].tax_amount).toBe(0);
+    expect(totals.total).toBe(158.9);
+  });
+
+  it('adds the known shipping cost without taxing it', () => {
+    const totals = TotalsCalculator.calculate(
+      request([item(100)], { shipping: { mode: 'custom', cost: 15.5 } }),
+      { currency: 'ARS', tax: { rate: 10, inclusive: false } }
+    );
+
+    expect(totals.shipping_cost).toBe(15.5);
+    expect(totals.tax_total).toBe(10);
+    expect(totals.total).toBe(125.5);
+    expectReconciled(totals);
+  });
+
+  it('ignores the shipping cost when Mercado Envíos calculates it', () => {
+    const totals = TotalsCalculator.calculate(
+      request([item(100)], { shipping: { mode: 'me2', dimensions: { height: 10, width: 10, length: 10, weight: 500 } } }),
+      { currency: 'ARS' }
+    );
+
+    expect(totals.shipping_cost).toBe(0);
+    expect(totals.total).toBe(100);
+  });
+});
+
+describe('TotalsCalculator.splitUnitPrices', () => {
+  it('keeps a single group when the total divides evenly', () => {
+    expect(TotalsCalculator.splitUnitPrices({ quantity: 4, total: 10 }, 'ARS')).toEqual([
+      { quantity: 4, unit_price: 2.5 },
+    ]);
+  });
+
+  it('splits into two groups one minor unit apart', () => {
+    expect(TotalsCalculator.splitUnitPrices({ quantity: 3, total: 100 }, 'ARS')).toEqual([
+      { quantity: 1, unit_price: 33.34 },
+      { quantity: 2, unit_price: 33.33 },
+    ]);
+  });
+
+  it('splits in whole units for currencies without decimals', () => {
+    expect(TotalsCalculator.splitUnitPrices({ quantity: 3, total: 2697 }, 'CLP')).toEqual([
+      { quantity: 3, unit_price: 899 },
+    ]);
+    expect(TotalsCalculator.splitUnitPrices({ quantity: 4, total: 2697 }, 'CLP')).toEqual([
+      { quantity: 1, unit_price: 675 },
+      { quantity: 3, unit_price: 674 },
+    ]);
+  });
+
+  it('sends a single unit when the total is below one minor unit per unit', () => {
+    expect(TotalsCalculator.splitUnitPrices({ quantity: 5, total: 0.03 }, 'ARS')).toEqual([
+      { quantity: 1, unit_price: 0.03 },
+    ]);
+  });
+
+  it('collapses a discounted line into a single unit when the quantity cannot be kept', () => {
+    const totals = TotalsCalculator.calculate(
+      request([item(1, 3)], { discounts: [{ type: 'fixed', value: 2.98 }] }),
+      { currency: 'ARS' }
+    );
+    const [line] = totals.lines;
+
+    // 0.02 no alcanza para 3 unidades de al menos 0.01: se envía 1 x 0.02 y se conserva el total
+    expect(line.quantity).toBe(3);
+    expect(line.total).toBe(0.02);
+    expect(TotalsCalculator.splitUnitPrices(line, 'ARS')).toEqual([{ quantity: 1, unit_price: 0.02 }]);
+    expectReconciled(totals);
+  });
+
+  it('drops fully discounted lines', () => {
+    expect(TotalsCalculator.splitUnitPrices({ quantity: 2, total: 0 }, 'ARS')).toEqual([]);
+  });
+});
+
+describe('TotalsCalculator.percentageOf', () => {
+  it('rounds marketplace fees half-up to the currency minor unit', () => {
+    // 100.05 * 10% = 10.005 -> 10.01
+    expect(TotalsCalculator.percentageOf(100.05, 10, 'ARS')).toBe(10.01);
+    expect(TotalsCalculator.percentageOf(2697, 12.5, 'CLP')).toBe(337);
+  });
+});